@@ -1,86 +1,294 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Send, Mic, Paperclip, Settings, X, Terminal, Cpu, Database } from 'lucide-react';
-import { motion, AnimatePresence } from 'framer-motion';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Send, Mic, Paperclip, Settings, X, Terminal, Cpu, Database, Square, History, Clock, Camera, Search, Eye } from 'lucide-react';
+import { motion, AnimatePresence, useReducedMotion } from 'framer-motion';
 
 // Types & Services
-import { Message, Sender, OrionState, DeviceContext, OrionSettings } from './types';
-import { DEFAULT_SETTINGS, INITIAL_GREETING } from './constants';
-import { generateOrionResponse } from './services/geminiService';
+import { Message, Sender, OrionState, OrionSettings, ProviderId, ConversationSession, VoiceMode, ToolEnvironment, ActionCategory, PermissionPolicy, Attachment, MessageError, ConversationBranches, ConversationExportFormat, CommandContext, CommandSuggestion, OrionRequest } from './types';
+import { INITIAL_GREETING, PROVIDER_OPTIONS, CONTEXT_BUDGET_OPTIONS, ACTION_CATEGORY_LABELS, PROACTIVE_RULES, DEFAULT_LIVE_QUESTION } from './constants';
+import { prepareConversationContext, previewOrionRequest, streamOrionResponse, MAX_ATTEMPTS } from './services/geminiService';
+import { orionTools } from './services/tools';
+import { executeCommand, getCommandSuggestions, orionCommands, unescapeCommandInput } from './services/commands';
+import { loadSettings, saveSettings } from './services/settingsStore';
+import { ACCEPT_ATTRIBUTE, processFile } from './services/attachments';
+import { getActiveProfile } from './services/profiles';
+import { applyTheme, getActiveTheme } from './services/themes';
+import { createMicrophoneLevelSource } from './services/audioLevel';
+import { listMemories, rankMemories } from './services/memoryStore';
+import { listTelemetry, subscribeTelemetry, toDayKey, tokensOnDay } from './services/telemetry';
+import { branchAt, getVariants, removeMessage, switchToVariant } from './services/messageTree';
+import { downloadConversation, parseConversationFile } from './services/conversationExport';
+import { classifyError } from './services/errors';
+import { providerRequiresNetwork } from './services/providers';
+import { createTriggerEngine, isRuleEnabled, loadTriggerHistory, renderRuleMessage, saveTriggerHistory } from './services/triggerEngine';
+import { useVoice } from './hooks/useVoice';
+import { useDeviceContext } from './hooks/useDeviceContext';
+import { useCamera } from './hooks/useCamera';
+import { useTaskScheduler } from './hooks/useTaskScheduler';
+import { useAudioLevel } from './hooks/useAudioLevel';
+import { deviceSensors, isSensorActive } from './services/sensors';
+import { createSession, deleteSession, deriveSessionTitle, listSessions, saveSession, DEFAULT_SESSION_TITLE } from './services/sessionStore';
 
 // Components
 import OrionOrb from './components/OrionOrb';
 import SystemHUD from './components/SystemHUD';
+import TaskPanel from './components/TaskPanel';
+import SessionPanel from './components/SessionPanel';
+import OperationCard from './components/OperationCard';
+import AuditLogPanel from './components/AuditLogPanel';
+import MarkdownMessage from './components/MarkdownMessage';
+import AttachmentPreview from './components/AttachmentPreview';
+import PersonalityMatrix from './components/PersonalityMatrix';
+import ThemeEditor from './components/ThemeEditor';
+import FailureNotice from './components/FailureNotice';
+import MemoryInspector from './components/MemoryInspector';
+import TelemetryPanel from './components/TelemetryPanel';
+import PrivacyPanel from './components/PrivacyPanel';
+import PayloadPreview from './components/PayloadPreview';
+import CameraPanel from './components/CameraPanel';
+import MessageActions from './components/MessageActions';
+import SearchPalette from './components/SearchPalette';
+import CommandSuggestions from './components/CommandSuggestions';
+
+// Shared empty value so sessions without alternates compare equal across renders
+const NO_BRANCHES: Message[] = [];
+
+// Diagnostics keep only the most recent failures
+const MAX_FAILURE_LOG = 10;
+
+// Replies join the end of their prompt's turn, ahead of any messages queued behind it
+const insertIntoTurn = (list: Message[], promptId: string, message: Message): Message[] => {
+  const promptIndex = list.findIndex(m => m.id === promptId);
+  const nextPromptIndex = promptIndex < 0 ? -1 : list.findIndex((m, i) => i > promptIndex && m.sender === Sender.User);
+  if (nextPromptIndex < 0) return [...list, message];
+  return [...list.slice(0, nextPromptIndex), message, ...list.slice(nextPromptIndex)];
+};
 
 const App: React.FC = () => {
   // --- State Management ---
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]); // Active branch of the conversation
+  const [branches, setBranches] = useState<Message[]>(NO_BRANCHES); // Alternates off the active branch
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
   const [input, setInput] = useState('');
   const [orionState, setOrionState] = useState<OrionState>(OrionState.Idle);
-  const [settings, setSettings] = useState<OrionSettings>(DEFAULT_SETTINGS);
+  const [settings, setSettings] = useState<OrionSettings>(loadSettings);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [attachedImages, setAttachedImages] = useState<string[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+
+  // Session State
+  const [sessions, setSessions] = useState<ConversationSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isSessionPanelOpen, setIsSessionPanelOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [payloadPreview, setPayloadPreview] = useState<OrionRequest | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [commandIndex, setCommandIndex] = useState(0);
+  const [commandsDismissed, setCommandsDismissed] = useState(false);
   
   // Device Context State
-  const [deviceContext, setDeviceContext] = useState<DeviceContext>({
-    batteryLevel: null,
-    isCharging: false,
-    isOnline: navigator.onLine,
-    platform: navigator.platform,
-    currentTime: new Date().toLocaleString(),
-  });
+  const { context: deviceContext, report: reportDeviceContext } = useDeviceContext({ sharing: settings.sensors });
 
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Resolvers for tool calls paused on an approve/deny card, keyed by call id
+  const approvalResolversRef = useRef(new Map<string, (approved: boolean) => void>());
+  const [awaitingApprovalIds, setAwaitingApprovalIds] = useState<string[]>([]);
+  const triggerEngineRef = useRef(createTriggerEngine(loadTriggerHistory()));
+
+  // Failure State
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
+  const [failureLog, setFailureLog] = useState<(MessageError & { timestamp: Date })[]>([]);
+  // Tokens spent on the given local day, for the daily budget
+  const [tokenUsage, setTokenUsage] = useState({ day: toDayKey(new Date()), tokens: 0 });
+  // A reply waiting for confirmation because the daily budget is spent
+  const [budgetHeldReply, setBudgetHeldReply] = useState<{ history: Message[]; prompt: Message } | null>(null);
+  const budgetAcknowledgedDayRef = useRef<string | null>(null);
+
+  const tokensUsedToday = tokenUsage.day === toDayKey(new Date()) ? tokenUsage.tokens : 0;
+  // Over the daily budget, model calls wait for confirmation (asked once per day)
+  const isOverBudget = () => settings.dailyTokenBudget > 0 &&
+    tokensUsedToday >= settings.dailyTokenBudget &&
+    budgetAcknowledgedDayRef.current !== toDayKey(new Date());
+
+  const isBusy = orionState === OrionState.Thinking || orionState === OrionState.Responding;
+  const canReachProvider = deviceContext.isOnline || !providerRequiresNetwork(settings);
+  const queuedCount = messages.filter(m => m.pending).length;
+
+  // --- Voice ---
+
+  const dictationPrefixRef = useRef('');
+  const voice = useVoice({
+    mode: settings.voiceMode,
+    suspended: isBusy,
+    onTranscript: (transcript, isFinal) => {
+      if (settings.voiceMode === 'hands-free') {
+        if (isFinal && transcript) {
+          sendMessage(transcript);
+        } else {
+          setInput(transcript);
+        }
+      } else {
+        setInput(dictationPrefixRef.current + transcript);
+      }
+    }
+  });
+  const { speak, cancelSpeech } = voice;
+
+  // --- Camera ---
+
+  const liveQuestionRef = useRef(DEFAULT_LIVE_QUESTION);
+  const camera = useCamera({
+    onLiveFrame: (frame) => {
+      // Live frames are only useful now: drop them instead of piling up or queueing offline
+      if (isBusy || !canReachProvider || queuedCount > 0) return;
+      if (isOverBudget()) {
+        camera.stopLive();
+        postOrionMessage('Live camera stopped: the daily token budget is spent.', { local: true });
+        return;
+      }
+      submitPrompt(liveQuestionRef.current, [frame]);
+    }
+  });
+
+  // The orb shows capture (voice or camera) whenever Orion itself is not busy
+  const orbState = (voice.isListening || camera.isActive) && !isBusy ? OrionState.Listening : orionState;
+
+  // --- Appearance ---
+
+  const theme = getActiveTheme(settings);
+  useEffect(() => {
+    applyTheme(theme);
+  }, [theme]);
+
+  // The orb follows the microphone while dictating and the voice while speaking,
+  // unless the user prefers reduced motion
+  const reduceMotion = useReducedMotion();
+  const microphoneLevel = useMemo(() => createMicrophoneLevelSource(), []);
+  const orbAudioSource = reduceMotion || settings.visualIntensity === 'minimal' ? null
+    : orbState === OrionState.Listening && voice.isListening ? microphoneLevel
+    : orbState === OrionState.Responding && settings.voiceEnabled ? voice.outputLevel
+    : null;
+  const orbLevel = useAudioLevel(orbAudioSource);
+
+  // --- Scheduled Tasks ---
+
+  const { tasks, recent: recentTasks, scheduler: taskScheduler } = useTaskScheduler({
+    // Wait for a session so reminders that came due while closed are not overwritten on boot
+    ready: activeSessionId !== null,
+    onFire: (task) => {
+      postOrionMessage(`⏰ Reminder: ${task.label}`, { local: true });
+      showNotification(task.label);
+    }
+  });
+
+  // --- Sessions ---
+
+  const activateSession = (session: ConversationSession) => {
+    abortControllerRef.current?.abort();
+    cancelSpeech();
+    setActiveSessionId(session.id);
+    setMessages(session.messages);
+    setBranches(session.branches ?? NO_BRANCHES);
+    setEditingMessageId(null);
+  };
+
+  const createGreeting = (): Message => ({
+    id: 'init-1',
+    text: INITIAL_GREETING,
+    sender: Sender.Orion,
+    timestamp: new Date()
+  });
+
+  const startNewSession = () => {
+    const session = createSession([createGreeting()]);
+    setSessions(prev => [session, ...prev]);
+    activateSession(session);
+    saveSession(session).catch(error => console.error("Session persistence failure:", error));
+  };
 
   // --- Effects ---
 
   // Initialize System
   useEffect(() => {
-    // Add initial greeting after a short delay to simulate boot
-    setTimeout(() => {
-      setMessages([{
-        id: 'init-1',
-        text: INITIAL_GREETING,
-        sender: Sender.Orion,
-        timestamp: new Date()
-      }]);
-    }, 1000);
-
-    // Context Clock Tick
-    const clockInterval = setInterval(() => {
-      setDeviceContext(prev => ({ ...prev, currentTime: new Date().toLocaleString() }));
-    }, 60000);
-
-    // Online Status Listeners
-    const handleOnline = () => setDeviceContext(prev => ({ ...prev, isOnline: true }));
-    const handleOffline = () => setDeviceContext(prev => ({ ...prev, isOnline: false }));
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-
-    // Battery API (Experimental)
-    if ('getBattery' in navigator) {
-      // @ts-ignore
-      navigator.getBattery().then(battery => {
-        const updateBattery = () => {
-          setDeviceContext(prev => ({
-            ...prev,
-            batteryLevel: battery.level,
-            isCharging: battery.charging
-          }));
-        };
-        updateBattery();
-        battery.addEventListener('levelchange', updateBattery);
-        battery.addEventListener('chargingchange', updateBattery);
+    // Resume the most recent session, or greet in a fresh one after a short delay to simulate boot
+    let bootTimeout: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+    listSessions()
+      .then(stored => {
+        if (cancelled) return;
+        if (stored.length > 0) {
+          setSessions(stored);
+          activateSession(stored[0]);
+        } else {
+          bootTimeout = setTimeout(startNewSession, 1000);
+        }
+      })
+      .catch(error => {
+        console.error("Session storage unavailable:", error);
+        if (!cancelled) bootTimeout = setTimeout(startNewSession, 1000);
       });
-    }
 
     return () => {
-      clearInterval(clockInterval);
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
+      cancelled = true;
+      clearTimeout(bootTimeout);
     };
   }, []);
 
+  // Persist the active session once a turn has settled (not on every streamed chunk)
+  useEffect(() => {
+    if (!activeSessionId || isBusy || messages.length === 0) return;
+    const current = sessions.find(s => s.id === activeSessionId);
+    if (!current || (current.messages === messages && (current.branches ?? NO_BRANCHES) === branches)) return;
+
+    const updated: ConversationSession = {
+      ...current,
+      title: current.title === DEFAULT_SESSION_TITLE ? deriveSessionTitle(messages) : current.title,
+      updatedAt: new Date(),
+      messages,
+      branches
+    };
+    setSessions(prev => [updated, ...prev.filter(s => s.id !== updated.id)]);
+    saveSession(updated).catch(error => console.error("Session persistence failure:", error));
+  }, [messages, branches, activeSessionId, isBusy, sessions]);
+
+  // Persist settings on every change
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  // Proactive triggers: let Orion speak up when the device context changes
+  useEffect(() => {
+    // Wait for a session so proactive messages are not overwritten on boot
+    if (!activeSessionId) return;
+    const snapshot = { context: deviceContext, at: new Date() };
+    const rules = PROACTIVE_RULES.filter(rule => isRuleEnabled(rule, settings));
+    const fired = triggerEngineRef.current.observe(rules, snapshot);
+    if (fired.length === 0) return;
+
+    saveTriggerHistory(triggerEngineRef.current.history());
+    fired.forEach(rule => {
+      const text = renderRuleMessage(rule, snapshot);
+      // Local: the text quotes device readings that bypass the sensor and field consent
+      if (rule.action !== 'notification') postOrionMessage(text, { local: true });
+      if (rule.action !== 'message') showNotification(text);
+    });
+  }, [deviceContext, settings, activeSessionId]);
+
+  // Ask for notification access once there is something to notify about
+  useEffect(() => {
+    if (tasks.length > 0 && 'Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+  }, [tasks.length]);
+
+  // Camera failures before the panel opens (e.g. permission denied) surface in the input tray
+  useEffect(() => {
+    if (camera.cameraError && !camera.isActive) setAttachmentError(camera.cameraError);
+  }, [camera.cameraError, camera.isActive]);
+
   // Auto-scroll chat
   useEffect(() => {
     if (chatContainerRef.current) {
@@ -88,99 +296,703 @@ const App: React.FC = () => {
     }
   }, [messages, orionState]);
 
+  // Bring a search result into view and flash it
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    chatContainerRef.current
+      ?.querySelector(`[data-message-id="${CSS.escape(highlightedMessageId)}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
 
-  // --- Handlers ---
+  // Keep today's token count current as calls are recorded
+  useEffect(() => {
+    const today = toDayKey(new Date());
+    listTelemetry()
+      .then(records => setTokenUsage({ day: today, tokens: tokensOnDay(records, today) }))
+      .catch(error => console.error("Telemetry unavailable:", error));
 
-  const handleSendMessage = useCallback(async () => {
-    if ((!input.trim() && attachedImages.length === 0) || orionState === OrionState.Thinking) return;
+    return subscribeTelemetry(record => {
+      const day = toDayKey(record.startedAt);
+      const tokens = record.promptTokens + record.responseTokens;
+      setTokenUsage(prev => prev.day === day ? { day, tokens: prev.tokens + tokens } : { day, tokens });
+    });
+  }, []);
 
-    const newUserMessage: Message = {
-      id: Date.now().toString(),
-      text: input,
-      sender: Sender.User,
-      timestamp: new Date(),
-      attachments: [...attachedImages]
+  // A held reply belongs to the session it was asked in
+  useEffect(() => {
+    setBudgetHeldReply(null);
+  }, [activeSessionId]);
+
+  // Ctrl/Cmd+K opens search from anywhere
+  useEffect(() => {
+    const handleShortcut = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
     };
+    window.addEventListener('keydown', handleShortcut);
+    return () => window.removeEventListener('keydown', handleShortcut);
+  }, []);
 
-    setMessages(prev => [...prev, newUserMessage]);
-    setInput('');
-    setAttachedImages([]);
+  // --- Handlers ---
+
+  const showNotification = (body: string) => {
+    if ('Notification' in window && Notification.permission === 'granted') {
+      new Notification('ORION', { body });
+    }
+  };
+
+  // What Orion's tools may read and change while handling `prompt`
+  const createToolEnvironment = (prompt: Message): ToolEnvironment => ({
+    context: deviceContext,
+    settings,
+    sessionId: activeSessionId,
+    sourceMessageId: prompt.id,
+    updateSettings: (patch) => setSettings(prev => ({ ...prev, ...patch })),
+    scheduler: taskScheduler
+  });
+
+  const recordFailure = (failure: MessageError) => {
+    setFailureLog(prev => [{ ...failure, timestamp: new Date() }, ...prev].slice(0, MAX_FAILURE_LOG));
+  };
+
+  // Run one Orion turn answering `prompt`, given the conversation before it
+  const requestOrionReply = useCallback(async (history: Message[], prompt: Message) => {
+    if (isOverBudget()) {
+      setBudgetHeldReply({ history, prompt });
+      return;
+    }
+    setBudgetHeldReply(null);
     setOrionState(OrionState.Thinking);
+    setRetryStatus(null);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const orionMessageId = (Date.now() + 1).toString();
+    let receivedText = '';
+    let orionMessageCreated = false;
 
     try {
-      const responseText = await generateOrionResponse(
-        messages, 
-        input, // pass the raw input before clearing for context
-        attachedImages, 
+      // Fit history into the token budget, folding older turns into the session summary
+      const sessionId = activeSessionId;
+      const previousSummary = sessions.find(s => s.id === sessionId)?.summary;
+      const conversation = await prepareConversationContext(history, previousSummary, settings, controller.signal, sessionId);
+      if (conversation.summary !== previousSummary) {
+        setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, summary: conversation.summary } : s));
+      }
+
+      // Long-term facts most relevant to this prompt
+      const memories = await listMemories()
+        .then(facts => rankMemories(facts, prompt.text))
+        .catch(error => {
+          console.error("Memory store unavailable:", error);
+          return [];
+        });
+
+      const stream = streamOrionResponse(
+        conversation.history, 
+        prompt.text,
+        prompt.attachments ?? [], 
         deviceContext, 
-        settings
+        settings,
+        {
+          signal: controller.signal,
+          summary: conversation.summary,
+          memories,
+          tools: {
+            registry: orionTools,
+            environment: createToolEnvironment(prompt),
+            requestApproval: (call) => new Promise<boolean>(resolve => {
+              const settle = (approved: boolean) => {
+                approvalResolversRef.current.delete(call.id);
+                setAwaitingApprovalIds(prev => prev.filter(id => id !== call.id));
+                resolve(approved);
+              };
+              approvalResolversRef.current.set(call.id, settle);
+              setAwaitingApprovalIds(prev => [...prev, call.id]);
+              // Stopping the reply counts as a denial
+              controller.signal.addEventListener('abort', () => settle(false), { once: true });
+            })
+          }
+        }
       );
 
-      // Simulate "Typing/Speaking" delay for organic feel
-      setOrionState(OrionState.Responding);
-      
-      setTimeout(() => {
-        const newOrionMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          text: responseText,
-          sender: Sender.Orion,
-          timestamp: new Date()
-        };
-        setMessages(prev => [...prev, newOrionMessage]);
+      const updateOrionMessage = (update: (msg: Message) => Message) => {
+        if (!orionMessageCreated) {
+          // First event: materialize the Orion message and let it grow live
+          orionMessageCreated = true;
+          setOrionState(OrionState.Responding);
+          setMessages(prev => insertIntoTurn(prev, prompt.id, update({
+            id: orionMessageId,
+            text: '',
+            sender: Sender.Orion,
+            timestamp: new Date()
+          })));
+        } else {
+          setMessages(prev => prev.map(m => m.id === orionMessageId ? update(m) : m));
+        }
+      };
+
+      for await (const event of stream) {
+        if (event.type === 'retry') {
+          setRetryStatus(`RETRYING (${event.attempt}/${MAX_ATTEMPTS}) • ${event.error.kind.toUpperCase()}`);
+          recordFailure(event.error);
+        } else if (event.type === 'text') {
+          setRetryStatus(null);
+          receivedText += event.text;
+          updateOrionMessage(m => ({ ...m, text: m.text + event.text }));
+        } else {
+          const { call } = event;
+          updateOrionMessage(m => {
+            const calls = m.toolCalls ?? [];
+            return {
+              ...m,
+              toolCalls: calls.some(c => c.id === call.id)
+                ? calls.map(c => c.id === call.id ? call : c)
+                : [...calls, call]
+            };
+          });
+        }
+      }
+
+      if (receivedText && !controller.signal.aborted && settings.voiceEnabled) {
+        // Stay in Responding while the reply is read aloud
+        speak(receivedText, () => setOrionState(current => current === OrionState.Responding ? OrionState.Idle : current));
+      } else {
         setOrionState(OrionState.Idle);
-      }, 800); // Small artificial delay for visual feedback
+      }
 
     } catch (error) {
+      if (controller.signal.aborted) {
+        setOrionState(OrionState.Idle);
+        return;
+      }
+      const failure = classifyError(error).toMessageError();
+      recordFailure(failure);
+      // Re-queue only when the device really went offline: the drain resends as soon as
+      // the provider counts as reachable, so an unreachable server while online
+      // (proxy down, local model stopped) would otherwise be retried in a tight loop
+      if (failure.kind === 'offline' && !orionMessageCreated && !navigator.onLine && providerRequiresNetwork(settings)) {
+        // Connection dropped before anything arrived: put the prompt back in the queue
+        reportDeviceContext({ isOnline: false });
+        setMessages(prev => prev.map(m => m.id === prompt.id ? { ...m, pending: true } : m));
+        setOrionState(OrionState.Idle);
+        return;
+      }
+      // Keep any partial reply and add an inline failure notice after it
+      setMessages(prev => insertIntoTurn(prev, prompt.id, {
+        id: `${orionMessageId}-error`,
+        text: '',
+        sender: Sender.Orion,
+        timestamp: new Date(),
+        error: failure
+      }));
       setOrionState(OrionState.Error);
-      setTimeout(() => setOrionState(OrionState.Idle), 3000);
+      setTimeout(() => setOrionState(current => current === OrionState.Error ? OrionState.Idle : current), 3000);
+    } finally {
+      setRetryStatus(null);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  }, [deviceContext, settings, sessions, activeSessionId, speak, tokensUsedToday]);
+
+  // Append a user message and answer it, or hold it in the offline queue
+  const submitPrompt = useCallback(async (text: string, promptAttachments: Attachment[], history: Message[] = messages) => {
+    // Queue while offline, and behind anything already queued so order is kept
+    const queued = !canReachProvider || queuedCount > 0;
+    const newUserMessage: Message = {
+      id: Date.now().toString(),
+      text,
+      sender: Sender.User,
+      timestamp: new Date(),
+      attachments: promptAttachments,
+      ...(queued && { pending: true })
+    };
+
+    setMessages(prev => [...prev, newUserMessage]);
+    if (!queued) {
+      await requestOrionReply(history, newUserMessage);
+    }
+  }, [messages, canReachProvider, queuedCount, requestOrionReply]);
+
+  const sendMessage = useCallback(async (text: string) => {
+    if ((!text.trim() && attachments.length === 0) || isBusy) return;
+    setInput('');
+    setAttachments([]);
+    await submitPrompt(text, [...attachments]);
+  }, [attachments, isBusy, submitPrompt]);
+
+  // Drain the offline queue one prompt at a time once the provider is reachable again
+  useEffect(() => {
+    if (!canReachProvider || isBusy || budgetHeldReply) return;
+    const index = messages.findIndex(m => m.pending);
+    if (index < 0) return;
+
+    // Over budget the queue pauses and the prompt stays pending until the user confirms
+    if (isOverBudget()) {
+      setBudgetHeldReply({ history: messages.slice(0, index), prompt: messages[index] });
+      return;
+    }
+
+    const prompt: Message = { ...messages[index], pending: undefined };
+    setMessages(prev => prev.map(m => m.id === prompt.id ? prompt : m));
+    requestOrionReply(messages.slice(0, index), prompt);
+  }, [canReachProvider, isBusy, budgetHeldReply, messages, requestOrionReply]);
+
+  // Re-run the prompt that a failure notice belongs to, replacing the notice
+  const handleRetry = (failureMessageId: string) => {
+    if (isBusy) return;
+    const failureIndex = messages.findIndex(m => m.id === failureMessageId);
+    let promptIndex = failureIndex - 1;
+    while (promptIndex >= 0 && (messages[promptIndex].sender !== Sender.User || messages[promptIndex].error)) {
+      promptIndex--;
+    }
+    if (promptIndex < 0) return;
+
+    setMessages(prev => prev.filter(m => m.id !== failureMessageId));
+    requestOrionReply(messages.slice(0, promptIndex), messages[promptIndex]);
+  };
+
+  // Slash commands run locally and never reach the model; anything else is sent
+  const handleSendMessage = (text: string = input) => {
+    if (executeCommand(orionCommands, text, createCommandContext())) {
+      setInput('');
+      return;
+    }
+    sendMessage(unescapeCommandInput(text));
+  };
+
+  // What sending the current input would transmit, after consent and redaction
+  const openPayloadPreview = async () => {
+    const prompt = unescapeCommandInput(input);
+    const memories = await listMemories()
+      .then(facts => rankMemories(facts, prompt))
+      .catch(error => {
+        console.error("Memory store unavailable:", error);
+        return [];
+      });
+    const summary = sessions.find(s => s.id === activeSessionId)?.summary;
+    setPayloadPreview(previewOrionRequest(messages, summary, prompt, attachments, deviceContext, settings, { memories, tools: orionTools }));
+  };
+
+  const confirmOverBudgetReply = () => {
+    if (!budgetHeldReply) return;
+    budgetAcknowledgedDayRef.current = toDayKey(new Date());
+    setBudgetHeldReply(null);
+    // A queued prompt is sent by the queue drain, which resumes once the hold is cleared
+    if (!budgetHeldReply.prompt.pending) requestOrionReply(budgetHeldReply.history, budgetHeldReply.prompt);
+  };
+
+  // Cancelling also releases the rest of the queue, so it isn't held again prompt by prompt
+  const cancelOverBudgetReply = () => {
+    setBudgetHeldReply(null);
+    setMessages(prev => prev.map(m => m.pending ? { ...m, pending: undefined } : m));
+  };
+
+  // Last prompt answered again: a failed one is retried, a completed reply regenerated
+  const retryLastPrompt = (): boolean => {
+    if (isBusy) return false;
+    let index = messages.length - 1;
+    while (index >= 0 && messages[index].local) index--;
+    const last = messages[index];
+    if (!last || !messages.slice(0, index).some(m => m.sender === Sender.User)) return false;
+    if (last.error) {
+      handleRetry(last.id);
+      return true;
+    }
+    if (last.sender !== Sender.Orion) return false;
+    handleRegenerate(last.id);
+    return true;
+  };
+
+  const createCommandContext = (): CommandContext => ({
+    settings,
+    context: deviceContext,
+    messages,
+    updateSettings: (patch) => setSettings(prev => ({ ...prev, ...patch })),
+    reply: (text) => postOrionMessage(text, { local: true }),
+    clearConversation: () => {
+      abortControllerRef.current?.abort();
+      cancelSpeech();
+      // Back to the greeting, which the persistence effect saves; the summary described the old turns
+      setMessages([createGreeting()]);
+      setBranches(NO_BRANCHES);
+      setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, summary: undefined } : s));
+      setEditingMessageId(null);
+    },
+    newSession: startNewSession,
+    exportConversation: (format) => {
+      if (activeSessionId) handleExportSession(activeSessionId, format);
+    },
+    retry: retryLastPrompt
+  });
+
+  const commandSuggestions = commandsDismissed ? [] : getCommandSuggestions(orionCommands, input, createCommandContext());
+  const selectedCommandIndex = Math.min(commandIndex, commandSuggestions.length - 1);
+
+  // Accepting a complete command or argument runs it; a bare name waits for its argument
+  const acceptCommandSuggestion = (suggestion: CommandSuggestion) => {
+    setCommandIndex(0);
+    if (suggestion.completion.endsWith(' ')) {
+      setInput(suggestion.completion);
+    } else {
+      handleSendMessage(suggestion.completion);
+    }
+  };
+
+  // --- Branching ---
+
+  const conversationTree: ConversationBranches = { path: messages, branches };
+
+  const applyBranches = (next: ConversationBranches) => {
+    setMessages(next.path);
+    setBranches(next.branches);
+  };
+
+  const handleShowVariant = (messageId: string, offset: -1 | 1) => {
+    if (isBusy) return;
+    const variants = getVariants(conversationTree, messageId);
+    const target = variants[variants.findIndex(v => v.id === messageId) + offset];
+    if (target) applyBranches(switchToVariant(conversationTree, target.id));
+  };
+
+  // Ask again for the reply at `messageId`; the current reply stays behind as a variant
+  const handleRegenerate = (messageId: string) => {
+    if (isBusy) return;
+    let promptIndex = messages.findIndex(m => m.id === messageId) - 1;
+    while (promptIndex >= 0 && messages[promptIndex].sender !== Sender.User) {
+      promptIndex--;
+    }
+    if (promptIndex < 0) return;
+
+    const next = branchAt(conversationTree, promptIndex + 1);
+    applyBranches(next);
+    requestOrionReply(next.path.slice(0, promptIndex), next.path[promptIndex]);
+  };
+
+  const handleStartEditing = (msg: Message) => {
+    setEditingMessageId(msg.id);
+    setEditDraft(msg.text);
+  };
+
+  // Re-run from an edited prompt; the original prompt and everything after it stay as a variant
+  const handleEditResend = () => {
+    const index = messages.findIndex(m => m.id === editingMessageId);
+    setEditingMessageId(null);
+    if (index < 0 || isBusy) return;
+    const original = messages[index];
+    if (!editDraft.trim() && !original.attachments?.length) return;
+
+    const next = branchAt(conversationTree, index);
+    applyBranches(next);
+    submitPrompt(editDraft, original.attachments ?? [], next.path);
+  };
+
+  // Continue from `index`; the messages after it are kept as an alternate branch
+  const handleBranch = (index: number) => {
+    if (!isBusy) applyBranches(branchAt(conversationTree, index + 1));
+  };
+
+  const handleDeleteMessage = (messageId: string) => {
+    if (!isBusy) applyBranches(removeMessage(conversationTree, messageId));
+  };
+
+  // Post an Orion message outside the request/response cycle (e.g. a timer firing).
+  // Local messages (slash-command output) are shown but never sent to the model.
+  const postOrionMessage = (text: string, { local = false } = {}) => {
+    setMessages(prev => [...prev, {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      text,
+      sender: Sender.Orion,
+      timestamp: new Date(),
+      ...(local && { local: true })
+    }]);
+  };
+
+  // Abort the in-flight stream (any text already received stays in the chat) or cut speech short
+  const handleStopResponse = () => {
+    abortControllerRef.current?.abort();
+    cancelSpeech();
+    if (!abortControllerRef.current) setOrionState(OrionState.Idle);
+  };
+
+  const handleMicPress = () => {
+    if (settings.voiceMode === 'hands-free') {
+      voice.toggleHandsFree();
+      return;
+    }
+    // Push-to-talk: dictation is appended to whatever is already typed
+    dictationPrefixRef.current = input.trim() ? `${input.trimEnd()} ` : '';
+    voice.startCapture();
+  };
+
+  const handleMicRelease = () => {
+    if (settings.voiceMode === 'push-to-talk' && voice.isListening) {
+      voice.stopCapture();
+    }
+  };
+
+  const handleSelectSession = (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (session && id !== activeSessionId) {
+      activateSession(session);
+    }
+    setIsSessionPanelOpen(false);
+  };
+
+  const handleRenameSession = (id: string, title: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (!session) return;
+    const renamed = { ...session, title };
+    setSessions(prev => prev.map(s => s.id === id ? renamed : s));
+    saveSession(renamed).catch(error => console.error("Session persistence failure:", error));
+  };
+
+  const handleDeleteSession = (id: string) => {
+    const remaining = sessions.filter(s => s.id !== id);
+    setSessions(remaining);
+    deleteSession(id).catch(error => console.error("Session persistence failure:", error));
+
+    if (id === activeSessionId) {
+      if (remaining.length > 0) {
+        activateSession(remaining[0]);
+      } else {
+        startNewSession();
+      }
     }
-  }, [input, attachedImages, messages, deviceContext, settings, orionState]);
+  };
+
+  const handleExportSession = (id: string, format: ConversationExportFormat) => {
+    // The active session may have unsaved changes mid-turn; export what is on screen
+    const session = sessions.find(s => s.id === id);
+    if (!session) return;
+    downloadConversation(id === activeSessionId ? { ...session, messages, branches } : session, settings, format);
+  };
+
+  const handleImportSession = async (file: File) => {
+    const session = parseConversationFile(await file.text());
+    setSessions(prev => [session, ...prev]);
+    activateSession(session);
+    setIsSessionPanelOpen(false);
+    saveSession(session).catch(error => console.error("Session persistence failure:", error));
+  };
+
+  // Search the live messages of the active session, which may not be persisted yet
+  const searchableSessions = useMemo(
+    () => sessions.map(s => s.id === activeSessionId ? { ...s, messages } : s),
+    [sessions, activeSessionId, messages]
+  );
+
+  const handleJumpToMessage = (sessionId: string, messageId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (session && sessionId !== activeSessionId) {
+      activateSession(session);
+    }
+    setIsSearchOpen(false);
+    setHighlightedMessageId(messageId);
+  };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (commandSuggestions.length > 0) {
+      const count = commandSuggestions.length;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        setCommandIndex((selectedCommandIndex + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+        return;
+      }
+      if (e.key === 'Tab') {
+        e.preventDefault();
+        setInput(commandSuggestions[selectedCommandIndex].completion);
+        setCommandIndex(0);
+        return;
+      }
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        acceptCommandSuggestion(commandSuggestions[selectedCommandIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setCommandsDismissed(true);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
     }
   };
 
+  // Shared by the file picker, drag-and-drop and paste
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const results = await Promise.allSettled(files.map(processFile));
+
+    const accepted = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+    const errors = results.flatMap(r => r.status === 'rejected' ? [r.reason instanceof Error ? r.reason.message : String(r.reason)] : []);
+
+    if (accepted.length > 0) setAttachments(prev => [...prev, ...accepted]);
+    setAttachmentError(errors.length > 0 ? errors.join(' ') : null);
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setAttachedImages(prev => [...prev, reader.result as string]);
-      };
-      reader.readAsDataURL(file);
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = ''; // Allow picking the same file again
+  };
+
+  const handleCameraSnapshot = async () => {
+    const frame = await camera.snapshot();
+    if (frame) setAttachments(prev => [...prev, frame]);
+  };
+
+  const handleStartLive = (intervalSeconds: number, question: string) => {
+    liveQuestionRef.current = question;
+    camera.startLive(intervalSeconds * 1000);
+  };
+
+  const handleRemoveAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(a => a.id !== id));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
     }
   };
 
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leave events fired when crossing into child elements
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
   // --- Render Helpers ---
 
-  const renderMessage = (msg: Message) => {
+  const renderMessage = (msg: Message, index: number) => {
     const isOrion = msg.sender === Sender.Orion;
+    if (msg.error) {
+      return (
+        <FailureNotice
+          key={msg.id}
+          error={msg.error}
+          timestamp={msg.timestamp}
+          onRetry={isBusy ? undefined : () => handleRetry(msg.id)}
+        />
+      );
+    }
+    const variants = getVariants(conversationTree, msg.id);
+    const variantIndex = variants.findIndex(v => v.id === msg.id);
+    const canSwipe = variants.length > 1 && !isBusy;
+    const isEditing = editingMessageId === msg.id;
     return (
       <motion.div 
         key={msg.id}
+        data-message-id={msg.id}
         initial={{ opacity: 0, y: 10 }}
         animate={{ opacity: 1, y: 0 }}
         className={`flex w-full mb-6 ${isOrion ? 'justify-start' : 'justify-end'}`}
       >
-        <div className={`max-w-[80%] ${isOrion ? 'text-slate-200' : 'text-slate-900 bg-orion-highlight/90'} rounded-2xl p-4 shadow-lg backdrop-blur-sm ${isOrion ? 'bg-slate-800/50 border border-slate-700' : ''}`}>
+        <div className="max-w-[80%] group">
+          <motion.div
+            // Alternate replies can be swiped through as well as stepped with the arrows
+            drag={canSwipe ? 'x' : false}
+            dragConstraints={{ left: 0, right: 0 }}
+            dragElastic={0.3}
+            onDragEnd={(_, info) => {
+              if (info.offset.x < -60) handleShowVariant(msg.id, 1);
+              else if (info.offset.x > 60) handleShowVariant(msg.id, -1);
+            }}
+            className={`${isOrion ? 'text-slate-200' : 'text-slate-900 bg-orion-highlight/90'} rounded-2xl p-4 shadow-lg backdrop-blur-sm ${isOrion ? 'bg-slate-800/50 border border-slate-700' : ''} ${canSwipe ? 'cursor-grab active:cursor-grabbing' : ''} ${highlightedMessageId === msg.id ? 'ring-2 ring-orion-highlight ring-offset-2 ring-offset-orion-base transition-shadow' : ''}`}
+          >
           
-          {msg.attachments && msg.attachments.length > 0 && (
-            <div className="flex gap-2 mb-2 overflow-x-auto">
-              {msg.attachments.map((img, idx) => (
-                <img key={idx} src={img} alt="attachment" className="h-24 rounded-lg border border-white/20" />
-              ))}
+            {msg.attachments && msg.attachments.length > 0 && (
+              <div className="flex gap-2 mb-2 overflow-x-auto">
+                {msg.attachments.map(attachment => (
+                  <AttachmentPreview key={attachment.id} attachment={attachment} />
+                ))}
+              </div>
+            )}
+
+            {msg.toolCalls?.map(call => (
+              <OperationCard
+                key={call.id}
+                call={call}
+                onResolveApproval={awaitingApprovalIds.includes(call.id)
+                  ? (approved) => approvalResolversRef.current.get(call.id)?.(approved)
+                  : undefined}
+              />
+            ))}
+
+            {isEditing ? (
+              <div className="flex flex-col gap-2 min-w-[16rem]">
+                <textarea
+                  value={editDraft}
+                  onChange={(e) => setEditDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleEditResend();
+                    } else if (e.key === 'Escape') {
+                      setEditingMessageId(null);
+                    }
+                  }}
+                  autoFocus
+                  rows={3}
+                  className="w-full bg-white/40 rounded-lg p-2 text-sm font-sans text-slate-900 resize-y focus:outline-none"
+                />
+                <div className="flex justify-end gap-2 text-[10px] font-mono">
+                  <button onClick={() => setEditingMessageId(null)} className="px-2 py-1 rounded-md hover:bg-black/10">CANCEL</button>
+                  <button onClick={handleEditResend} className="px-2 py-1 rounded-md bg-slate-900 text-orion-highlight hover:bg-slate-800">SAVE & RESEND</button>
+                </div>
+              </div>
+            ) : msg.text && (isOrion ? (
+              <div className="prose prose-invert prose-sm md:prose-base max-w-none leading-relaxed font-sans prose-headings:font-mono prose-headings:tracking-wide prose-p:my-2">
+                <MarkdownMessage text={msg.text} />
+              </div>
+            ) : (
+              <div className="prose prose-invert text-sm md:text-base leading-relaxed whitespace-pre-wrap font-sans">
+                {msg.text}
+              </div>
+            ))}
+            <div className={`text-[10px] mt-2 font-mono opacity-50 ${isOrion ? 'text-left' : 'text-right'}`}>
+              {msg.pending && (
+                <span className="inline-flex items-center gap-1 mr-2 tracking-wider">
+                  <Clock size={10} /> QUEUED
+                </span>
+              )}
+              {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
             </div>
+          </motion.div>
+          {!isEditing && (
+            <MessageActions
+              align={isOrion ? 'left' : 'right'}
+              text={msg.text}
+              variantIndex={variantIndex}
+              variantCount={variants.length}
+              disabled={isBusy}
+              onShowVariant={(offset) => handleShowVariant(msg.id, offset)}
+              onEdit={!isOrion && !msg.pending ? () => handleStartEditing(msg) : undefined}
+              onRegenerate={isOrion && messages.slice(0, index).some(m => m.sender === Sender.User) ? () => handleRegenerate(msg.id) : undefined}
+              onBranch={index < messages.length - 1 ? () => handleBranch(index) : undefined}
+              onDelete={() => handleDeleteMessage(msg.id)}
+            />
           )}
-
-          <div className="prose prose-invert text-sm md:text-base leading-relaxed whitespace-pre-wrap font-sans">
-            {msg.text}
-          </div>
-          <div className={`text-[10px] mt-2 font-mono opacity-50 ${isOrion ? 'text-left' : 'text-right'}`}>
-            {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-          </div>
         </div>
       </motion.div>
     );
@@ -190,17 +1002,46 @@ const App: React.FC = () => {
     <div className="relative w-full h-screen bg-orion-base flex flex-col items-center overflow-hidden">
       
       {/* Background Ambience */}
-      <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-slate-900 via-orion-base to-black opacity-80 pointer-events-none" />
+      <div
+        className="absolute inset-0 opacity-80 pointer-events-none"
+        style={{ background: 'radial-gradient(circle at center, var(--orion-bg-from), var(--orion-bg-via), var(--orion-bg-to))' }}
+      />
       <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-orion-highlight to-transparent opacity-20" />
 
       {/* Header / HUD */}
       <header className="z-10 w-full p-6 flex justify-between items-start">
-        <div className="flex flex-col">
-          <h1 className="text-xl font-mono tracking-[0.2em] font-bold text-white opacity-90">ORION</h1>
-          <span className="text-[10px] text-orion-highlight font-mono tracking-widest opacity-60">SYSTEM V1.0-ALPHA</span>
+        <div className="flex items-start gap-3">
+          <button 
+            onClick={() => setIsSessionPanelOpen(true)}
+            title="Sessions"
+            className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-white"
+          >
+            <History size={20} />
+          </button>
+          <button 
+            onClick={() => setIsSearchOpen(true)}
+            title="Search conversations (Ctrl+K)"
+            className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-white"
+          >
+            <Search size={20} />
+          </button>
+          <div className="flex flex-col">
+            <h1 className="text-xl font-mono tracking-[0.2em] font-bold text-white opacity-90">ORION</h1>
+            <span className="text-[10px] text-orion-highlight font-mono tracking-widest opacity-60">SYSTEM V1.0-ALPHA</span>
+          </div>
         </div>
-        <div className="hidden md:block">
-           <SystemHUD context={deviceContext} />
+        <div className="flex items-center gap-2">
+          <div className="hidden md:block">
+             <SystemHUD context={deviceContext} />
+          </div>
+          <TaskPanel
+            tasks={tasks}
+            recent={recentTasks}
+            now={Date.now()}
+            onSchedule={(task) => taskScheduler.schedule(task)}
+            onSnooze={(id, minutes) => taskScheduler.snooze(id, minutes * 60000)}
+            onCancel={(id) => taskScheduler.cancel(id)}
+          />
         </div>
         <button 
           onClick={() => setIsSettingsOpen(true)}
@@ -211,11 +1052,23 @@ const App: React.FC = () => {
       </header>
 
       {/* Main Content Area */}
-      <main className="flex-1 w-full max-w-4xl flex flex-col relative z-10 px-4">
+      <main 
+        className="flex-1 w-full max-w-4xl flex flex-col relative z-10 px-4"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
         
+        {/* Drop Target Overlay */}
+        {isDraggingFiles && (
+          <div className="absolute inset-2 z-20 rounded-2xl border-2 border-dashed border-orion-highlight/60 bg-slate-950/70 backdrop-blur-sm flex items-center justify-center pointer-events-none">
+            <span className="text-xs font-mono tracking-widest text-orion-highlight">DROP FILES TO ATTACH</span>
+          </div>
+        )}
+
         {/* The Core Entity (Orb) */}
         <div className="flex-shrink-0 flex justify-center py-4">
-          <OrionOrb state={orionState} intensity={settings.visualIntensity} />
+          <OrionOrb state={orbState} intensity={settings.visualIntensity} colors={theme.orb} level={orbAudioSource ? orbLevel : undefined} />
         </div>
 
         {/* Chat / Output Area */}
@@ -232,32 +1085,72 @@ const App: React.FC = () => {
                 className="flex items-center space-x-2 text-orion-accent text-xs font-mono ml-4 mb-4"
               >
                 <Cpu size={12} className="animate-spin" />
-                <span>PROCESSING CONTEXT...</span>
+                <span>{retryStatus ?? 'PROCESSING CONTEXT...'}</span>
               </motion.div>
             )}
           </div>
         </div>
 
         {/* Input Area */}
-        <div className="w-full pb-8 pt-4">
+        <div className="relative w-full pb-8 pt-4">
+          <AnimatePresence>
+            {commandSuggestions.length > 0 && (
+              <CommandSuggestions
+                suggestions={commandSuggestions}
+                selectedIndex={selectedCommandIndex}
+                onPick={acceptCommandSuggestion}
+                onHover={setCommandIndex}
+              />
+            )}
+          </AnimatePresence>
           <div className="relative bg-slate-900/80 backdrop-blur-xl border border-slate-700/50 rounded-2xl shadow-2xl overflow-hidden transition-all focus-within:border-orion-highlight/50 focus-within:shadow-orion-highlight/10">
+
+            <AnimatePresence>
+              {camera.isActive && (
+                <CameraPanel
+                  previewStream={camera.previewStream}
+                  isLive={camera.isLive}
+                  error={camera.cameraError}
+                  onSnapshot={handleCameraSnapshot}
+                  onStartLive={handleStartLive}
+                  onStopLive={camera.stopLive}
+                  onClose={camera.close}
+                />
+              )}
+            </AnimatePresence>
             
-            {attachedImages.length > 0 && (
-               <div className="flex gap-2 p-3 bg-slate-950/50 border-b border-slate-800">
-                 {attachedImages.map((img, i) => (
-                   <div key={i} className="relative group">
-                     <img src={img} className="h-12 w-12 rounded object-cover opacity-70" />
-                     <button 
-                       onClick={() => setAttachedImages([])}
-                       className="absolute -top-2 -right-2 bg-red-500 rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
-                     >
-                       <X size={10} />
-                     </button>
-                   </div>
+            {attachments.length > 0 && (
+               <div className="flex gap-2 p-3 bg-slate-950/50 border-b border-slate-800 overflow-x-auto">
+                 {attachments.map(attachment => (
+                   <AttachmentPreview
+                     key={attachment.id}
+                     attachment={attachment}
+                     compact
+                     onRemove={() => handleRemoveAttachment(attachment.id)}
+                   />
                  ))}
                </div>
             )}
 
+            {budgetHeldReply && (
+              <div className="flex items-center gap-3 px-4 py-2 text-[10px] font-mono text-orion-warning border-b border-slate-800">
+                <span className="flex-1">
+                  DAILY TOKEN BUDGET REACHED ({tokensUsedToday.toLocaleString()} / {settings.dailyTokenBudget.toLocaleString()})
+                </span>
+                <button onClick={confirmOverBudgetReply} className="hover:text-white">SEND ANYWAY</button>
+                <button onClick={cancelOverBudgetReply} className="text-slate-400 hover:text-white">CANCEL</button>
+              </div>
+            )}
+
+            {attachmentError && (
+              <div className="flex items-center justify-between gap-2 px-4 py-2 text-[10px] font-mono text-orion-danger border-b border-slate-800">
+                <span>{attachmentError}</span>
+                <button onClick={() => setAttachmentError(null)} className="hover:text-white">
+                  <X size={10} />
+                </button>
+              </div>
+            )}
+
             <div className="flex items-end p-4 gap-3">
               <button 
                 onClick={() => fileInputRef.current?.click()}
@@ -268,16 +1161,38 @@ const App: React.FC = () => {
                   type="file" 
                   ref={fileInputRef} 
                   className="hidden" 
-                  accept="image/*" 
+                  accept={ACCEPT_ATTRIBUTE} 
+                  multiple
                   onChange={handleFileUpload} 
                 />
               </button>
+
+              <button
+                onClick={camera.isActive ? camera.close : camera.open}
+                disabled={!camera.isSupported}
+                title={camera.isSupported ? (camera.isActive ? 'Close camera' : 'Open camera') : 'Camera unavailable'}
+                className={`p-2 transition-colors disabled:opacity-30 ${camera.isActive ? 'text-orion-success' : 'text-slate-400 hover:text-white'}`}
+              >
+                <Camera size={20} />
+              </button>
+              <button
+                onClick={openPayloadPreview}
+                title="Preview outgoing payload"
+                className="p-2 text-slate-400 hover:text-white transition-colors"
+              >
+                <Eye size={20} />
+              </button>
               
               <textarea
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
+                onChange={(e) => {
+                  setInput(e.target.value);
+                  setCommandIndex(0);
+                  setCommandsDismissed(false);
+                }}
                 onKeyDown={handleKeyPress}
-                placeholder="Command operational entity..."
+                onPaste={handlePaste}
+                placeholder="Command operational entity... (/ for commands)"
                 className="flex-1 bg-transparent border-none focus:ring-0 text-slate-200 placeholder-slate-600 resize-none h-6 max-h-32 py-2 font-mono text-sm overflow-hidden"
                 style={{ height: 'auto', minHeight: '24px' }}
                 rows={1}
@@ -288,27 +1203,88 @@ const App: React.FC = () => {
                 }}
               />
 
-              <button 
-                onClick={handleSendMessage}
-                disabled={(!input.trim() && attachedImages.length === 0) || orionState === OrionState.Thinking}
-                className="p-2 bg-orion-highlight/10 text-orion-highlight hover:bg-orion-highlight hover:text-slate-900 rounded-xl transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-orion-highlight"
-              >
-                <Send size={20} />
-              </button>
+              {settings.voiceEnabled && (
+                <button 
+                  onPointerDown={handleMicPress}
+                  onPointerUp={handleMicRelease}
+                  onPointerLeave={handleMicRelease}
+                  disabled={!voice.isSupported}
+                  title={
+                    !voice.isSupported ? 'Speech recognition unavailable'
+                      : settings.voiceMode === 'hands-free' ? 'Toggle hands-free listening'
+                      : 'Hold to talk'
+                  }
+                  className={`p-2 rounded-xl transition-all disabled:opacity-30 ${
+                    voice.isListening || voice.isHandsFreeActive
+                      ? 'bg-orion-success/20 text-orion-success animate-pulse'
+                      : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  <Mic size={20} />
+                </button>
+              )}
+
+              {isBusy ? (
+                <button 
+                  onClick={handleStopResponse}
+                  title="Stop response"
+                  className="p-2 bg-orion-danger/10 text-orion-danger hover:bg-orion-danger hover:text-slate-900 rounded-xl transition-all"
+                >
+                  <Square size={20} />
+                </button>
+              ) : (
+                <button 
+                  onClick={() => handleSendMessage()}
+                  disabled={!input.trim() && attachments.length === 0}
+                  className="p-2 bg-orion-highlight/10 text-orion-highlight hover:bg-orion-highlight hover:text-slate-900 rounded-xl transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-orion-highlight"
+                >
+                  <Send size={20} />
+                </button>
+              )}
             </div>
             
             {/* Input Decorator Line */}
-            <div className={`h-[2px] w-full bg-gradient-to-r from-transparent via-orion-highlight to-transparent transition-opacity duration-500 ${orionState === OrionState.Thinking ? 'opacity-100 animate-pulse' : 'opacity-0'}`} />
+            <div className={`h-[2px] w-full bg-gradient-to-r from-transparent via-orion-highlight to-transparent transition-opacity duration-500 ${isBusy ? 'opacity-100 animate-pulse' : 'opacity-0'}`} />
           </div>
           
           <div className="text-center mt-2">
             <p className="text-[10px] text-slate-600 font-mono">
-               ORION COGNITIVE LAYER ACTIVE • SECURE CONNECTION
+              {canReachProvider
+                ? 'ORION COGNITIVE LAYER ACTIVE • SECURE CONNECTION'
+                : `OFFLINE • ${queuedCount} MESSAGE${queuedCount === 1 ? '' : 'S'} QUEUED`}
             </p>
           </div>
         </div>
       </main>
 
+      {/* Conversation Search */}
+      <AnimatePresence>
+        {isSearchOpen && (
+          <SearchPalette
+            sessions={searchableSessions}
+            onJump={handleJumpToMessage}
+            onClose={() => setIsSearchOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Session Browser */}
+      <AnimatePresence>
+        {isSessionPanelOpen && (
+          <SessionPanel
+            sessions={sessions}
+            activeSessionId={activeSessionId}
+            onSelect={handleSelectSession}
+            onCreate={() => { startNewSession(); setIsSessionPanelOpen(false); }}
+            onRename={handleRenameSession}
+            onDelete={handleDeleteSession}
+            onExport={handleExportSession}
+            onImport={handleImportSession}
+            onClose={() => setIsSessionPanelOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Settings Modal */}
       <AnimatePresence>
         {isSettingsOpen && (
@@ -334,48 +1310,269 @@ const App: React.FC = () => {
                 </button>
               </div>
               
-              <div className="p-6 space-y-6">
+              <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
                 
                 {/* Personality Config */}
+                <PersonalityMatrix settings={settings} setSettings={setSettings} />
+
+                {/* Visual Config */}
                 <div>
-                  <label className="block text-xs font-mono text-slate-400 mb-3 uppercase tracking-wider">Personality Matrix</label>
+                  <label className="block text-xs font-mono text-slate-400 mb-3 uppercase tracking-wider">Visual Intensity</label>
                   <div className="grid grid-cols-3 gap-2">
-                    {['professional', 'friendly', 'direct'].map((p) => (
+                    {['minimal', 'balanced', 'immersive'].map((v) => (
                       <button
-                        key={p}
-                        onClick={() => setSettings(prev => ({ ...prev, personality: p as any }))}
+                        key={v}
+                        onClick={() => setSettings(prev => ({ ...prev, visualIntensity: v as any }))}
                         className={`py-2 px-3 rounded-lg text-xs font-medium capitalize border transition-all ${
-                          settings.personality === p 
+                          settings.visualIntensity === v 
+                            ? 'bg-orion-accent/20 border-orion-accent text-orion-accent' 
+                            : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'
+                        }`}
+                      >
+                        {v}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Theme Config */}
+                <ThemeEditor settings={settings} setSettings={setSettings} />
+
+                {/* Voice Config */}
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <label className="block text-xs font-mono text-slate-400 uppercase tracking-wider">Voice Interface</label>
+                    <button
+                      onClick={() => setSettings(prev => ({ ...prev, voiceEnabled: !prev.voiceEnabled }))}
+                      className={`relative w-10 h-5 rounded-full border transition-all ${
+                        settings.voiceEnabled ? 'bg-orion-success/30 border-orion-success' : 'bg-slate-800 border-slate-700'
+                      }`}
+                    >
+                      <span className={`absolute top-0.5 w-3.5 h-3.5 rounded-full transition-all ${
+                        settings.voiceEnabled ? 'left-5 bg-orion-success' : 'left-0.5 bg-slate-500'
+                      }`} />
+                    </button>
+                  </div>
+                  {settings.voiceEnabled && (
+                    <div className="grid grid-cols-2 gap-2">
+                      {(['push-to-talk', 'hands-free'] as VoiceMode[]).map((m) => (
+                        <button
+                          key={m}
+                          onClick={() => setSettings(prev => ({ ...prev, voiceMode: m }))}
+                          className={`py-2 px-3 rounded-lg text-xs font-medium capitalize border transition-all ${
+                            settings.voiceMode === m 
+                              ? 'bg-orion-success/20 border-orion-success text-orion-success' 
+                              : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'
+                          }`}
+                        >
+                          {m.replace(/-/g, ' ')}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {voice.voiceError && (
+                    <p className="mt-2 text-[10px] font-mono text-orion-danger">VOICE: {voice.voiceError}</p>
+                  )}
+                </div>
+
+                {/* Cognition Provider Config */}
+                <div>
+                  <label className="block text-xs font-mono text-slate-400 mb-3 uppercase tracking-wider">Cognition Provider</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(Object.keys(PROVIDER_OPTIONS) as ProviderId[]).map((id) => (
+                      <button
+                        key={id}
+                        onClick={() => setSettings(prev => ({ ...prev, provider: id, model: PROVIDER_OPTIONS[id].models[0] }))}
+                        className={`py-2 px-3 rounded-lg text-xs font-medium border transition-all ${
+                          settings.provider === id 
                             ? 'bg-orion-highlight/20 border-orion-highlight text-orion-highlight' 
                             : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'
                         }`}
                       >
-                        {p}
+                        {PROVIDER_OPTIONS[id].label}
                       </button>
                     ))}
                   </div>
+                  <div className="mt-3 space-y-2">
+                    <input
+                      list="orion-model-options"
+                      value={settings.model}
+                      onChange={(e) => setSettings(prev => ({ ...prev, model: e.target.value }))}
+                      placeholder="Model"
+                      className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-200 focus:outline-none focus:border-orion-highlight"
+                    />
+                    <datalist id="orion-model-options">
+                      {PROVIDER_OPTIONS[settings.provider].models.map(m => <option key={m} value={m} />)}
+                    </datalist>
+                    {settings.provider === 'openai-compatible' && (
+                      <input
+                        value={settings.providerBaseUrl}
+                        onChange={(e) => setSettings(prev => ({ ...prev, providerBaseUrl: e.target.value }))}
+                        placeholder="Base URL (e.g. http://localhost:11434/v1)"
+                        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-200 focus:outline-none focus:border-orion-highlight"
+                      />
+                    )}
+                    {settings.provider === 'openai-compatible' && (
+                      <input
+                        type="password"
+                        autoComplete="off"
+                        value={settings.providerApiKey}
+                        onChange={(e) => setSettings(prev => ({ ...prev, providerApiKey: e.target.value }))}
+                        placeholder="API key (optional)"
+                        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-200 focus:outline-none focus:border-orion-highlight"
+                      />
+                    )}
+                    {settings.provider === 'mock' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <label className="flex items-center gap-2 text-[10px] font-mono text-slate-500">
+                          LATENCY (MS)
+                          <input
+                            type="number"
+                            min={0}
+                            step={100}
+                            value={settings.mockLatencyMs}
+                            onChange={(e) => setSettings(prev => ({ ...prev, mockLatencyMs: Math.max(0, Number(e.target.value) || 0) }))}
+                            className="w-full min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-200 focus:outline-none focus:border-orion-highlight"
+                          />
+                        </label>
+                        <label className="flex items-center gap-2 text-[10px] font-mono text-slate-500" title="Fail every Nth request; 0 never fails">
+                          FAIL EVERY
+                          <input
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={settings.mockFailEvery}
+                            onChange={(e) => setSettings(prev => ({ ...prev, mockFailEvery: Math.max(0, Math.floor(Number(e.target.value)) || 0) }))}
+                            className="w-full min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-200 focus:outline-none focus:border-orion-highlight"
+                          />
+                        </label>
+                      </div>
+                    )}
+                  </div>
                 </div>
 
-                {/* Visual Config */}
+                {/* Context Window Config */}
                 <div>
-                  <label className="block text-xs font-mono text-slate-400 mb-3 uppercase tracking-wider">Visual Intensity</label>
+                  <label className="block text-xs font-mono text-slate-400 mb-3 uppercase tracking-wider">Context Budget (tokens)</label>
                   <div className="grid grid-cols-3 gap-2">
-                    {['minimal', 'balanced', 'immersive'].map((v) => (
+                    {CONTEXT_BUDGET_OPTIONS.map((budget) => (
                       <button
-                        key={v}
-                        onClick={() => setSettings(prev => ({ ...prev, visualIntensity: v as any }))}
-                        className={`py-2 px-3 rounded-lg text-xs font-medium capitalize border transition-all ${
-                          settings.visualIntensity === v 
+                        key={budget}
+                        onClick={() => setSettings(prev => ({ ...prev, contextTokenBudget: budget }))}
+                        className={`py-2 px-3 rounded-lg text-xs font-medium font-mono border transition-all ${
+                          settings.contextTokenBudget === budget 
                             ? 'bg-orion-accent/20 border-orion-accent text-orion-accent' 
                             : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'
                         }`}
                       >
-                        {v}
+                        {budget >= 1000 ? `${budget / 1000}K` : budget}
                       </button>
                     ))}
                   </div>
                 </div>
 
+                {/* Permission Policy Config */}
+                <div>
+                  <label className="block text-xs font-mono text-slate-400 mb-3 uppercase tracking-wider">Action Permissions</label>
+                  <div className="space-y-2">
+                    {(Object.keys(ACTION_CATEGORY_LABELS) as ActionCategory[]).map((category) => (
+                      <div key={category} className="flex items-center justify-between gap-3">
+                        <span className="text-xs text-slate-300">{ACTION_CATEGORY_LABELS[category]}</span>
+                        <div className="flex gap-1">
+                          {(['allow', 'ask', 'deny'] as PermissionPolicy[]).map((policy) => (
+                            <button
+                              key={policy}
+                              onClick={() => setSettings(prev => ({ ...prev, permissions: { ...prev.permissions, [category]: policy } }))}
+                              className={`py-1 px-2 rounded-md text-[10px] font-mono uppercase border transition-all ${
+                                settings.permissions[category] === policy
+                                  ? policy === 'deny'
+                                    ? 'bg-orion-danger/20 border-orion-danger text-orion-danger'
+                                    : policy === 'ask'
+                                      ? 'bg-orion-warning/20 border-orion-warning text-orion-warning'
+                                      : 'bg-orion-success/20 border-orion-success text-orion-success'
+                                  : 'bg-slate-800 border-slate-700 text-slate-500 hover:border-slate-500'
+                              }`}
+                            >
+                              {policy}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Sensor Sharing Config */}
+                <div>
+                  <label className="block text-xs font-mono text-slate-400 mb-3 uppercase tracking-wider">Sensors Shared With Orion</label>
+                  <div className="space-y-2">
+                    {deviceSensors.list().map((sensor) => {
+                      const shared = settings.sensors[sensor.id];
+                      const supported = sensor.isSupported();
+                      return (
+                        <div key={sensor.id} className="flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <span className="block text-xs text-slate-300">{sensor.label}</span>
+                            <span className="block text-[10px] font-mono text-slate-500">
+                              {supported ? sensor.description : 'UNAVAILABLE ON THIS DEVICE'}
+                            </span>
+                          </div>
+                          <button
+                            onClick={() => setSettings(prev => ({ ...prev, sensors: { ...prev.sensors, [sensor.id]: !shared } }))}
+                            disabled={!supported}
+                            title={isSensorActive(sensor, settings.sensors) ? 'Sensor running' : 'Sensor stopped'}
+                            className={`relative flex-shrink-0 w-10 h-5 rounded-full border transition-all disabled:opacity-30 ${
+                              shared ? 'bg-orion-success/30 border-orion-success' : 'bg-slate-800 border-slate-700'
+                            }`}
+                          >
+                            <span className={`absolute top-0.5 w-3.5 h-3.5 rounded-full transition-all ${
+                              shared ? 'left-5 bg-orion-success' : 'left-0.5 bg-slate-500'
+                            }`} />
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {/* Privacy Config */}
+                <PrivacyPanel settings={settings} setSettings={setSettings} onPreview={openPayloadPreview} />
+
+                {/* Proactive Trigger Config */}
+                <div>
+                  <label className="block text-xs font-mono text-slate-400 mb-3 uppercase tracking-wider">Proactive Triggers</label>
+                  <div className="space-y-2">
+                    {PROACTIVE_RULES.map((rule) => {
+                      const enabled = isRuleEnabled(rule, settings);
+                      return (
+                        <div key={rule.id} className="flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <span className="block text-xs text-slate-300">{rule.name}</span>
+                            <span className="block text-[10px] font-mono text-slate-500 uppercase">
+                              {rule.action === 'both' ? 'message + notification' : rule.action} • {rule.cooldownMinutes}m cooldown
+                            </span>
+                          </div>
+                          <button
+                            onClick={() => {
+                              setSettings(prev => ({ ...prev, triggers: { ...prev.triggers, [rule.id]: !enabled } }));
+                              if (!enabled && rule.action !== 'message' && 'Notification' in window && Notification.permission === 'default') {
+                                Notification.requestPermission();
+                              }
+                            }}
+                            className={`relative flex-shrink-0 w-10 h-5 rounded-full border transition-all ${
+                              enabled ? 'bg-orion-success/30 border-orion-success' : 'bg-slate-800 border-slate-700'
+                            }`}
+                          >
+                            <span className={`absolute top-0.5 w-3.5 h-3.5 rounded-full transition-all ${
+                              enabled ? 'left-5 bg-orion-success' : 'left-0.5 bg-slate-500'
+                            }`} />
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
                 {/* System Status Dump */}
                 <div className="bg-slate-950 rounded-lg p-4 font-mono text-[10px] text-slate-500 overflow-hidden border border-slate-800">
                   <div className="flex items-center gap-2 mb-2 text-slate-300">
@@ -386,15 +1583,32 @@ const App: React.FC = () => {
 {`PLATFORM: ${deviceContext.platform}
 BATTERY: ${deviceContext.batteryLevel ? (deviceContext.batteryLevel * 100).toFixed(0) + '%' : 'N/A'}
 STATUS: ${deviceContext.isOnline ? 'ONLINE' : 'DISCONNECTED'}
-SESSION_ID: ${Date.now().toString().slice(-6)}`}
+QUEUED: ${queuedCount}
+PROVIDER: ${settings.provider.toUpperCase()} / ${getActiveProfile(settings).model || settings.model}
+PROFILE: ${getActiveProfile(settings).name} (T=${getActiveProfile(settings).temperature})
+FAILURES: ${failureLog.length}${failureLog.map(f => `\n  ${f.timestamp.toLocaleTimeString()} ${f.kind.toUpperCase()}: ${f.message.slice(0, 80)}`).join('')}
+SESSION_ID: ${activeSessionId ? activeSessionId.slice(0, 8).toUpperCase() : 'N/A'}`}
                   </pre>
                 </div>
 
+                <TelemetryPanel settings={settings} setSettings={setSettings} sessions={sessions} />
+
+                <MemoryInspector />
+
+                <AuditLogPanel />
+
               </div>
             </motion.div>
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Outgoing Payload Inspector */}
+      <AnimatePresence>
+        {payloadPreview && (
+          <PayloadPreview request={payloadPreview} onClose={() => setPayloadPreview(null)} />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -0,0 +1,49 @@
+import React from 'react';
+import { FileText, X } from 'lucide-react';
+import { Attachment } from '../types';
+import { formatBytes, isImageAttachment, toDataUrl } from '../services/attachments';
+
+interface AttachmentPreviewProps {
+  attachment: Attachment;
+  compact?: boolean; // Thumbnail size used in the input tray
+  onRemove?: () => void;
+}
+
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ attachment, compact = false, onRemove }) => {
+  const isImage = isImageAttachment(attachment);
+
+  return (
+    <div className="relative group flex-shrink-0" title={`${attachment.name} • ${formatBytes(attachment.size)}`}>
+      {isImage ? (
+        <img
+          src={toDataUrl(attachment)}
+          alt={attachment.name}
+          className={compact ? 'h-12 w-12 rounded object-cover opacity-70' : 'h-24 rounded-lg border border-white/20'}
+        />
+      ) : (
+        <div className={`flex items-center gap-2 rounded-lg border font-mono ${
+          compact
+            ? 'h-12 px-2 text-[10px] border-slate-700 bg-slate-800 text-slate-300'
+            : 'px-3 py-2 text-xs border-white/20 bg-black/20'
+        }`}>
+          <FileText size={compact ? 14 : 16} className="flex-shrink-0" />
+          <div className="flex flex-col min-w-0">
+            <span className="truncate max-w-[10rem]">{attachment.name}</span>
+            <span className="opacity-60">{formatBytes(attachment.size)}</span>
+          </div>
+        </div>
+      )}
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          title="Remove attachment"
+          className="absolute -top-2 -right-2 bg-red-500 rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          <X size={10} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentPreview;
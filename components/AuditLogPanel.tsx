@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, Trash2 } from 'lucide-react';
+import { AuditEntry } from '../types';
+import { ACTION_CATEGORY_LABELS } from '../constants';
+import { clearAuditLog, listAuditEntries } from '../services/auditLog';
+
+const AuditLogPanel: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+
+  useEffect(() => {
+    listAuditEntries()
+      .then(setEntries)
+      .catch(error => console.error("Audit log unavailable:", error));
+  }, []);
+
+  const handleClear = () => {
+    clearAuditLog()
+      .then(() => setEntries([]))
+      .catch(error => console.error("Audit log failure:", error));
+  };
+
+  return (
+    <div className="bg-slate-950 rounded-lg p-4 font-mono text-[10px] text-slate-500 overflow-hidden border border-slate-800">
+      <div className="flex items-center gap-2 mb-2 text-slate-300">
+        <ShieldCheck size={12} />
+        <span>AUDIT LOG</span>
+        {entries.length > 0 && (
+          <button onClick={handleClear} title="Clear audit log" className="ml-auto text-slate-500 hover:text-orion-danger">
+            <Trash2 size={12} />
+          </button>
+        )}
+      </div>
+      {entries.length === 0 ? (
+        <p>NO DECISIONS RECORDED</p>
+      ) : (
+        <ul className="max-h-40 overflow-y-auto space-y-1">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex gap-2" title={JSON.stringify(entry.args)}>
+              <span className="text-slate-600">
+                {entry.timestamp.toLocaleString([], { dateStyle: 'short', timeStyle: 'medium' })}
+              </span>
+              <span className={entry.decision === 'allowed' ? 'text-orion-success' : 'text-orion-danger'}>
+                {entry.decision.toUpperCase()}
+              </span>
+              <span className="text-slate-300 truncate">{entry.toolName}</span>
+              <span className="ml-auto text-slate-600 whitespace-nowrap">
+                {ACTION_CATEGORY_LABELS[entry.category]} • {entry.decidedBy.toUpperCase()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPanel;
@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Aperture, Radio, X } from 'lucide-react';
+import { DEFAULT_LIVE_QUESTION, LIVE_FRAME_INTERVALS } from '../constants';
+
+interface CameraPanelProps {
+  previewStream: MediaStream | null;
+  isLive: boolean;
+  error: string | null;
+  onSnapshot: () => void;
+  onStartLive: (intervalSeconds: number, question: string) => void;
+  onStopLive: () => void;
+  onClose: () => void;
+}
+
+const CameraPanel: React.FC<CameraPanelProps> = ({ previewStream, isLive, error, onSnapshot, onStartLive, onStopLive, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [intervalSeconds, setIntervalSeconds] = useState(LIVE_FRAME_INTERVALS[1]);
+  const [question, setQuestion] = useState(DEFAULT_LIVE_QUESTION);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = previewStream;
+  }, [previewStream]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="border-b border-slate-800 bg-slate-950/50 overflow-hidden"
+    >
+      <div className="flex gap-4 p-3">
+        <div className="relative flex-shrink-0 w-48 aspect-video rounded-lg overflow-hidden bg-black border border-slate-800">
+          {previewStream ? (
+            <video ref={videoRef} autoPlay muted playsInline className="w-full h-full object-cover -scale-x-100" />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center text-[10px] font-mono text-slate-600">NO PREVIEW</div>
+          )}
+          {isLive && (
+            <span className="absolute top-1 left-1 flex items-center gap-1 px-1.5 py-0.5 rounded bg-orion-danger/80 text-[9px] font-mono text-white animate-pulse">
+              <Radio size={8} /> LIVE
+            </span>
+          )}
+        </div>
+
+        <div className="flex-1 min-w-0 flex flex-col gap-2 font-mono text-[10px]">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onSnapshot}
+              className="flex items-center gap-1 px-2 py-1 rounded-md border border-orion-highlight/50 text-orion-highlight hover:bg-orion-highlight hover:text-slate-900 transition-all"
+            >
+              <Aperture size={12} /> SNAPSHOT
+            </button>
+            <button
+              onClick={() => isLive ? onStopLive() : onStartLive(intervalSeconds, question.trim() || DEFAULT_LIVE_QUESTION)}
+              className={`flex items-center gap-1 px-2 py-1 rounded-md border transition-all ${
+                isLive
+                  ? 'bg-orion-danger/20 border-orion-danger text-orion-danger'
+                  : 'border-slate-700 text-slate-400 hover:border-slate-500'
+              }`}
+            >
+              <Radio size={12} /> {isLive ? 'STOP LIVE' : 'GO LIVE'}
+            </button>
+            <select
+              value={intervalSeconds}
+              onChange={(e) => setIntervalSeconds(Number(e.target.value))}
+              disabled={isLive}
+              title="Seconds between live frames"
+              className="bg-slate-900 border border-slate-700 rounded-md px-1 py-1 text-slate-300 disabled:opacity-50"
+            >
+              {LIVE_FRAME_INTERVALS.map(seconds => (
+                <option key={seconds} value={seconds}>EVERY {seconds}S</option>
+              ))}
+            </select>
+            <button onClick={onClose} title="Close camera" className="ml-auto text-slate-500 hover:text-white">
+              <X size={14} />
+            </button>
+          </div>
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            disabled={isLive}
+            rows={2}
+            placeholder="Standing question sent with every live frame"
+            className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-300 resize-none focus:border-orion-highlight focus:outline-none disabled:opacity-50"
+          />
+          {error && <span className="text-orion-danger">{error}</span>}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default CameraPanel;
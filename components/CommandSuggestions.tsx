@@ -0,0 +1,42 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { CommandSuggestion } from '../types';
+
+interface CommandSuggestionsProps {
+  suggestions: CommandSuggestion[];
+  selectedIndex: number;
+  onPick: (suggestion: CommandSuggestion) => void;
+  onHover: (index: number) => void;
+}
+
+const CommandSuggestions: React.FC<CommandSuggestionsProps> = ({ suggestions, selectedIndex, onPick, onHover }) => (
+  <motion.ul
+    initial={{ opacity: 0, y: 6 }}
+    animate={{ opacity: 1, y: 0 }}
+    role="listbox"
+    className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto bg-slate-900/95 backdrop-blur-xl border border-slate-700 rounded-xl shadow-2xl py-1 font-mono text-xs z-20"
+  >
+    {suggestions.map((suggestion, index) => (
+      <li
+        key={suggestion.completion}
+        role="option"
+        aria-selected={index === selectedIndex}
+        // Keep focus in the textarea
+        onMouseDown={(e) => { e.preventDefault(); onPick(suggestion); }}
+        onMouseEnter={() => onHover(index)}
+        className={`flex items-baseline gap-3 px-4 py-2 cursor-pointer ${
+          index === selectedIndex ? 'bg-orion-highlight/10 text-orion-highlight' : 'text-slate-300'
+        }`}
+      >
+        <span className="font-medium">{suggestion.label}</span>
+        {suggestion.hint && <span className="text-slate-500">{suggestion.hint}</span>}
+        {suggestion.description && <span className="ml-auto truncate text-slate-500">{suggestion.description}</span>}
+      </li>
+    ))}
+    <li className="px-4 pt-1.5 pb-1 text-[10px] text-slate-600 border-t border-slate-800 mt-1">
+      ↑↓ to choose · Tab to complete · Esc to dismiss
+    </li>
+  </motion.ul>
+);
+
+export default CommandSuggestions;
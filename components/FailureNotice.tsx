@@ -0,0 +1,52 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { AlertOctagon, RotateCcw } from 'lucide-react';
+import { MessageError, OrionErrorKind } from '../types';
+
+interface FailureNoticeProps {
+  error: MessageError;
+  timestamp: Date;
+  onRetry?: () => void;
+}
+
+const HINTS: Record<OrionErrorKind, string> = {
+  'missing-key': 'Set GEMINI_API_KEY for the server (.env.local) or pick another provider in CONFIGURATION.',
+  'rate-limit': 'The provider is throttling requests. Wait a moment before retrying.',
+  offline: 'Reconnect to a network, or switch to the Offline Mock provider.',
+  safety: 'Rephrase the request; the provider refused to answer it.',
+  timeout: 'The provider took too long to start responding.',
+  'empty-response': 'The provider returned nothing.',
+  provider: 'The provider reported an error.',
+};
+
+const FailureNotice: React.FC<FailureNoticeProps> = ({ error, timestamp, onRetry }) => (
+  <motion.div
+    initial={{ opacity: 0, y: 10 }}
+    animate={{ opacity: 1, y: 0 }}
+    className="flex w-full mb-6 justify-start"
+  >
+    <div className="max-w-[80%] rounded-2xl p-4 border border-orion-danger/40 bg-orion-danger/10 text-slate-200 font-mono text-xs">
+      <div className="flex items-center gap-2 text-orion-danger mb-1">
+        <AlertOctagon size={14} />
+        <span className="tracking-wider">COGNITIVE FAILURE • {error.kind.toUpperCase()}</span>
+      </div>
+      <p className="text-slate-300 break-words">{error.message}</p>
+      <p className="text-slate-500 mt-1">{HINTS[error.kind]}</p>
+      <div className="flex items-center justify-between mt-3">
+        <span className="text-[10px] opacity-50">
+          {timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="flex items-center gap-1 px-2 py-1 rounded-md border border-orion-danger/60 text-orion-danger hover:bg-orion-danger/20 transition-colors"
+          >
+            <RotateCcw size={12} /> RETRY
+          </button>
+        )}
+      </div>
+    </div>
+  </motion.div>
+);
+
+export default FailureNotice;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+
+interface MarkdownMessageProps {
+  text: string;
+}
+
+// Flatten the highlighted element tree back to plain source for the copy button
+const toPlainText = (node: React.ReactNode): string => {
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(toPlainText).join('');
+  if (React.isValidElement<{ children?: React.ReactNode }>(node)) return toPlainText(node.props.children);
+  return '';
+};
+
+const CodeBlock: React.FC<{ language?: string; children: React.ReactNode }> = ({ language, children }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(toPlainText(children).replace(/\n$/, '')).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    });
+  };
+
+  return (
+    <div className="not-prose my-3 rounded-lg border border-slate-700 bg-slate-950/80 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-slate-800 text-[10px] font-mono text-slate-500">
+        <span className="uppercase tracking-wider">{language || 'text'}</span>
+        <button onClick={handleCopy} className="flex items-center gap-1 hover:text-orion-highlight transition-colors">
+          {copied ? <Check size={12} className="text-orion-success" /> : <Copy size={12} />}
+          {copied ? 'COPIED' : 'COPY'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed">
+        <code className={`hljs ${language ? `language-${language}` : ''}`}>{children}</code>
+      </pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  // Fenced blocks are rendered by the `code` override; unwrap the default <pre>
+  pre: ({ children }) => <>{children}</>,
+  code: ({ className, children }) => {
+    const language = /language-([\w-]+)/.exec(className || '')?.[1];
+    const isBlock = Boolean(language) || String(toPlainText(children)).includes('\n');
+    if (!isBlock) {
+      return <code className="px-1 py-0.5 rounded bg-slate-900/80 text-orion-highlight font-mono text-[0.9em]">{children}</code>;
+    }
+    return <CodeBlock language={language}>{children}</CodeBlock>;
+  },
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-orion-highlight underline underline-offset-2 hover:text-white">
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto my-3">
+      <table className="w-full text-xs border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-slate-700 bg-slate-800/60 px-2 py-1 text-left font-mono">{children}</th>,
+  td: ({ children }) => <td className="border border-slate-700 px-2 py-1">{children}</td>,
+};
+
+/**
+ * Renders model output as Markdown (GFM tables/lists, fenced code with
+ * highlighting, $inline$ and $$block$$ math). Raw HTML in the source is
+ * never rendered: react-markdown escapes it and strips unsafe link protocols.
+ */
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ text }) => (
+  <ReactMarkdown
+    remarkPlugins={[remarkGfm, remarkMath]}
+    rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: true }]]}
+    components={components}
+    skipHtml
+  >
+    {text}
+  </ReactMarkdown>
+);
+
+export default MarkdownMessage;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Brain, Check, Download, Pencil, Trash2, X } from 'lucide-react';
+import { MemoryFact } from '../types';
+import { MAX_MEMORY_FACT_LENGTH, clearMemories, downloadMemories, forgetMemory, listMemories, updateMemory } from '../services/memoryStore';
+
+const MemoryInspector: React.FC = () => {
+  const [memories, setMemories] = useState<MemoryFact[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = () => {
+    listMemories()
+      .then(setMemories)
+      .catch(error => console.error("Memory store unavailable:", error));
+  };
+
+  useEffect(reload, []);
+
+  const run = (action: Promise<unknown>) => {
+    action
+      .then(() => {
+        setError(null);
+        reload();
+      })
+      .catch(error => setError(error instanceof Error ? error.message : String(error)));
+  };
+
+  const startEditing = (memory: MemoryFact) => {
+    setEditingId(memory.id);
+    setDraft(memory.text);
+    setError(null);
+  };
+
+  const commitEdit = () => {
+    if (!editingId) return;
+    run(updateMemory(editingId, draft));
+    setEditingId(null);
+  };
+
+  return (
+    <div className="bg-slate-950 rounded-lg p-4 font-mono text-[10px] text-slate-500 overflow-hidden border border-slate-800">
+      <div className="flex items-center gap-2 mb-2 text-slate-300">
+        <Brain size={12} />
+        <span>LONG-TERM MEMORY ({memories.length})</span>
+        {memories.length > 0 && (
+          <div className="ml-auto flex gap-2">
+            <button onClick={() => downloadMemories(memories)} title="Export memories" className="text-slate-500 hover:text-orion-highlight">
+              <Download size={12} />
+            </button>
+            <button onClick={() => run(clearMemories())} title="Forget everything" className="text-slate-500 hover:text-orion-danger">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="mb-2 text-orion-danger">{error}</p>}
+
+      {memories.length === 0 ? (
+        <p>NOTHING REMEMBERED YET</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto space-y-1">
+          {memories.map(memory => (
+            <li key={memory.id} className="group flex items-start gap-2">
+              {editingId === memory.id ? (
+                <>
+                  <input
+                    value={draft}
+                    maxLength={MAX_MEMORY_FACT_LENGTH}
+                    autoFocus
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitEdit();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:border-orion-highlight focus:outline-none"
+                  />
+                  <button onClick={commitEdit} title="Save" className="pt-1 text-orion-success">
+                    <Check size={12} />
+                  </button>
+                  <button onClick={() => setEditingId(null)} title="Cancel" className="pt-1 text-slate-500 hover:text-white">
+                    <X size={12} />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <span
+                    className="flex-1 text-slate-300 break-words"
+                    title={`Learned ${memory.createdAt.toLocaleString()}${memory.sourceMessageId ? ` from message ${memory.sourceMessageId}` : ''} • updated ${memory.updatedAt.toLocaleString()}`}
+                  >
+                    {memory.text}
+                  </span>
+                  <span className="text-slate-600 whitespace-nowrap">
+                    {memory.updatedAt.toLocaleDateString([], { dateStyle: 'short' })}
+                  </span>
+                  <button onClick={() => startEditing(memory)} title="Edit" className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-orion-highlight">
+                    <Pencil size={12} />
+                  </button>
+                  <button onClick={() => run(forgetMemory(memory.id))} title="Forget" className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-orion-danger">
+                    <Trash2 size={12} />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MemoryInspector;
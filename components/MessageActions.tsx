@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Check, ChevronLeft, ChevronRight, Copy, GitBranch, Pencil, RefreshCw, Trash2 } from 'lucide-react';
+
+interface MessageActionsProps {
+  align: 'left' | 'right';
+  text: string;
+  variantIndex: number; // Position among the message's alternates, 0-based
+  variantCount: number;
+  disabled: boolean; // While Orion is busy nothing may reshape the conversation
+  onShowVariant: (offset: -1 | 1) => void;
+  onEdit?: () => void; // User messages
+  onRegenerate?: () => void; // Orion replies
+  onBranch?: () => void; // Absent on the last message, where there is nothing to branch off
+  onDelete: () => void;
+}
+
+const ActionButton: React.FC<{ title: string; onClick: () => void; disabled?: boolean; danger?: boolean; children: React.ReactNode }> = ({
+  title, onClick, disabled, danger, children
+}) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className={`p-1 rounded transition-colors disabled:opacity-30 disabled:pointer-events-none ${
+      danger ? 'hover:text-orion-danger' : 'hover:text-orion-highlight'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const MessageActions: React.FC<MessageActionsProps> = ({
+  align, text, variantIndex, variantCount, disabled, onShowVariant, onEdit, onRegenerate, onBranch, onDelete
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(text)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(error => console.error("Clipboard Failure:", error));
+  };
+
+  return (
+    <div className={`flex items-center gap-1 mt-1 text-slate-500 font-mono text-[10px] ${align === 'right' ? 'justify-end' : 'justify-start'}`}>
+      {variantCount > 1 && (
+        <div className="flex items-center mr-1">
+          <ActionButton title="Previous variant" onClick={() => onShowVariant(-1)} disabled={disabled || variantIndex === 0}>
+            <ChevronLeft size={12} />
+          </ActionButton>
+          <span>{variantIndex + 1}/{variantCount}</span>
+          <ActionButton title="Next variant" onClick={() => onShowVariant(1)} disabled={disabled || variantIndex === variantCount - 1}>
+            <ChevronRight size={12} />
+          </ActionButton>
+        </div>
+      )}
+      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        {onEdit && (
+          <ActionButton title="Edit and resend" onClick={onEdit} disabled={disabled}>
+            <Pencil size={12} />
+          </ActionButton>
+        )}
+        {onRegenerate && (
+          <ActionButton title="Regenerate" onClick={onRegenerate} disabled={disabled}>
+            <RefreshCw size={12} />
+          </ActionButton>
+        )}
+        {onBranch && (
+          <ActionButton title="Branch from here" onClick={onBranch} disabled={disabled}>
+            <GitBranch size={12} />
+          </ActionButton>
+        )}
+        {text && (
+          <ActionButton title="Copy" onClick={handleCopy}>
+            {copied ? <Check size={12} className="text-orion-success" /> : <Copy size={12} />}
+          </ActionButton>
+        )}
+        <ActionButton title="Delete" onClick={onDelete} disabled={disabled} danger>
+          <Trash2 size={12} />
+        </ActionButton>
+      </div>
+    </div>
+  );
+};
+
+export default MessageActions;
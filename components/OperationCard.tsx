@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { AlertTriangle, Ban, CheckCircle2, ChevronDown, Loader2, ShieldQuestion, Wrench } from 'lucide-react';
+import { ToolCall } from '../types';
+
+interface OperationCardProps {
+  call: ToolCall;
+  // Present while the call is awaiting approval in the live reply
+  onResolveApproval?: (approved: boolean) => void;
+}
+
+const STATUS_STYLES: Record<ToolCall['status'], string> = {
+  'awaiting-approval': 'text-orion-warning',
+  running: 'text-orion-accent',
+  success: 'text-orion-success',
+  error: 'text-orion-danger',
+  denied: 'text-orion-danger',
+};
+
+const STATUS_ICONS: Record<ToolCall['status'], React.ElementType> = {
+  'awaiting-approval': ShieldQuestion,
+  running: Loader2,
+  success: CheckCircle2,
+  error: AlertTriangle,
+  denied: Ban,
+};
+
+const OperationCard: React.FC<OperationCardProps> = ({ call, onResolveApproval }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const StatusIcon = STATUS_ICONS[call.status];
+  const isAwaitingApproval = call.status === 'awaiting-approval';
+  const isSettled = call.status !== 'running' && !isAwaitingApproval;
+
+  return (
+    <div className="mb-2 rounded-lg border border-slate-700 bg-slate-950/60 font-mono text-[11px] overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-slate-400 hover:text-slate-200 transition-colors"
+      >
+        <Wrench size={12} className="text-orion-highlight" />
+        <span className="tracking-wider">OPERATION</span>
+        <span className="text-slate-200">{call.name}</span>
+        <StatusIcon size={12} className={`ml-auto ${STATUS_STYLES[call.status]} ${call.status === 'running' ? 'animate-spin' : ''}`} />
+        <ChevronDown size={12} className={`transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isAwaitingApproval && (
+        <div className="px-3 pb-3 space-y-2">
+          <pre className="whitespace-pre-wrap break-all text-slate-300">{JSON.stringify(call.args, null, 2)}</pre>
+          {onResolveApproval ? (
+            <div className="flex gap-2">
+              <button
+                onClick={() => onResolveApproval(true)}
+                className="flex-1 py-1.5 rounded-md border border-orion-success/60 bg-orion-success/10 text-orion-success hover:bg-orion-success/20 transition-colors"
+              >
+                APPROVE
+              </button>
+              <button
+                onClick={() => onResolveApproval(false)}
+                className="flex-1 py-1.5 rounded-md border border-orion-danger/60 bg-orion-danger/10 text-orion-danger hover:bg-orion-danger/20 transition-colors"
+              >
+                DENY
+              </button>
+            </div>
+          ) : (
+            <div className="text-slate-500">APPROVAL EXPIRED</div>
+          )}
+        </div>
+      )}
+
+      <AnimatePresence initial={false}>
+        {isExpanded && !isAwaitingApproval && (
+          <motion.div
+            initial={{ height: 0 }}
+            animate={{ height: 'auto' }}
+            exit={{ height: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="px-3 pb-3 space-y-2 border-t border-slate-800 pt-2">
+              <div>
+                <div className="text-slate-500 mb-1">ARGS</div>
+                <pre className="whitespace-pre-wrap break-all text-slate-300">{JSON.stringify(call.args, null, 2)}</pre>
+              </div>
+              {isSettled && (
+                <div>
+                  <div className="text-slate-500 mb-1">{call.status === 'success' ? 'RESULT' : call.status.toUpperCase()}</div>
+                  <pre className={`whitespace-pre-wrap break-all ${call.status === 'success' ? 'text-slate-300' : 'text-orion-danger'}`}>
+                    {call.status === 'success' ? JSON.stringify(call.result, null, 2) : call.error}
+                  </pre>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default OperationCard;
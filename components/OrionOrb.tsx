@@ -1,18 +1,29 @@
 import React from 'react';
-import { motion } from 'framer-motion';
+import { motion, MotionValue, useMotionValue, useReducedMotion, useTransform, Variants } from 'framer-motion';
 import { OrionState } from '../types';
-import { ORB_COLORS } from '../constants';
 
 interface OrionOrbProps {
   state: OrionState;
   intensity: 'minimal' | 'balanced' | 'immersive';
+  colors: Record<OrionState, string>; // From the active theme
+  level?: MotionValue<number>; // Live audio loudness (0-1); replaces the state pulse while set
 }
 
-const OrionOrb: React.FC<OrionOrbProps> = ({ state, intensity }) => {
-  const baseColor = ORB_COLORS[state];
+// Audio-driven orb: the core swells and glows with the level instead of pulsing
+const REACTIVE = 'reactive';
+
+const OrionOrb: React.FC<OrionOrbProps> = ({ state, intensity, colors, level }) => {
+  const baseColor = colors[state];
+  const reduceMotion = useReducedMotion();
+  const isReactive = Boolean(level) && !reduceMotion;
+
+  const silence = useMotionValue(0);
+  const audioLevel = level ?? silence;
+  const audioScale = useTransform(audioLevel, [0, 1], [1, 1.35]);
+  const audioGlow = useTransform(audioLevel, value => `0 0 ${Math.round(30 + value * 70)}px ${baseColor}`);
 
   // Animation variants
-  const coreVariants = {
+  const coreVariants: Variants = {
     [OrionState.Idle]: {
       scale: [1, 1.05, 1],
       opacity: 0.8,
@@ -37,10 +48,30 @@ const OrionOrb: React.FC<OrionOrbProps> = ({ state, intensity }) => {
     [OrionState.Error]: {
       x: [-5, 5, -5, 5, 0],
       transition: { duration: 0.4 }
+    },
+    [REACTIVE]: {
+      scale: 1,
+      opacity: 1,
+      transition: { duration: 0.3 }
     }
   };
 
-  const ringVariants = {
+  // prefers-reduced-motion: states differ only in color, glow and a fixed shape
+  const staticCoreVariants: Variants = {
+    [OrionState.Idle]: { scale: 1, opacity: 0.8 },
+    [OrionState.Listening]: { scale: 1.1, opacity: 1 },
+    [OrionState.Thinking]: { scale: 1, opacity: 0.9, borderRadius: '40%' },
+    [OrionState.Responding]: { scale: 1.05, opacity: 1, boxShadow: `0 0 60px ${baseColor}` },
+    [OrionState.Error]: { scale: 1, opacity: 1 }
+  };
+
+  const staticRingVariants: Variants = {
+    [OrionState.Idle]: { scale: 1.2, opacity: 0.3 },
+    [OrionState.Thinking]: { scale: 1.3, opacity: 0.5, borderWidth: '2px' },
+    [OrionState.Responding]: { scale: 1.4, opacity: 0.4 }
+  };
+
+  const ringVariants: Variants = {
     [OrionState.Idle]: {
       scale: [1.2, 1.3, 1.2],
       opacity: 0.3,
@@ -72,13 +103,13 @@ const OrionOrb: React.FC<OrionOrbProps> = ({ state, intensity }) => {
         <motion.div
           className="absolute rounded-full border border-current opacity-20"
           style={{ width: '160%', height: '160%', color: baseColor }}
-          variants={ringVariants}
+          variants={reduceMotion ? staticRingVariants : ringVariants}
           animate={state === OrionState.Listening ? OrionState.Thinking : state} 
         />
       )}
 
       {/* Outer Ring 2 - Decorator */}
-      {intensity === 'immersive' && (
+      {intensity === 'immersive' && !reduceMotion && (
          <motion.div
          className="absolute rounded-full border border-dashed border-current opacity-10"
          style={{ width: '220%', height: '220%', color: baseColor }}
@@ -87,16 +118,18 @@ const OrionOrb: React.FC<OrionOrbProps> = ({ state, intensity }) => {
        />
       )}
 
-      {/* Core Orb */}
-      <motion.div
-        className={`${sizeClass} rounded-full blur-sm`}
-        style={{ 
-          background: `radial-gradient(circle at 30% 30%, #ffffff 0%, ${baseColor} 60%, ${baseColor} 100%)`,
-          boxShadow: `0 0 30px ${baseColor}`
-        }}
-        variants={coreVariants}
-        animate={state}
-      />
+      {/* Core Orb (wrapped so the audio scale composes with the state animation) */}
+      <motion.div style={isReactive ? { scale: audioScale } : undefined}>
+        <motion.div
+          className={`${sizeClass} rounded-full blur-sm`}
+          style={{ 
+            background: `radial-gradient(circle at 30% 30%, #ffffff 0%, ${baseColor} 60%, ${baseColor} 100%)`,
+            boxShadow: isReactive ? audioGlow : `0 0 30px ${baseColor}`
+          }}
+          variants={reduceMotion ? staticCoreVariants : coreVariants}
+          animate={isReactive ? REACTIVE : state}
+        />
+      </motion.div>
       
       {/* Inner Highlight (The Eye Pupil) */}
       <div className="absolute w-2 h-2 bg-white rounded-full opacity-80 mix-blend-overlay" />
@@ -0,0 +1,108 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Eye, X } from 'lucide-react';
+import { OrionRequest, Sender } from '../types';
+
+interface PayloadPreviewProps {
+  request: OrionRequest;
+  onClose: () => void;
+}
+
+// Redactions read as [LABEL]; highlight them so it's clear what was masked
+const REDACTION_MARKER = /(\[[A-Z0-9 _-]+\])/g;
+
+const Highlighted: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(REDACTION_MARKER).map((part, i) =>
+      i % 2 === 1 ? <mark key={i} className="bg-orion-warning/20 text-orion-warning rounded px-0.5">{part}</mark> : part
+    )}
+  </>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section>
+    <h3 className="text-[10px] font-mono text-slate-500 uppercase tracking-wider mb-1.5">{title}</h3>
+    {children}
+  </section>
+);
+
+const PayloadPreview: React.FC<PayloadPreviewProps> = ({ request, onClose }) => (
+  <motion.div
+    initial={{ opacity: 0 }}
+    animate={{ opacity: 1 }}
+    exit={{ opacity: 0 }}
+    onClick={onClose}
+    className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-start justify-center p-4 pt-[8vh]"
+  >
+    <motion.div
+      initial={{ scale: 0.95, y: -10 }}
+      animate={{ scale: 1, y: 0 }}
+      onClick={(e) => e.stopPropagation()}
+      className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden"
+    >
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-slate-800">
+        <Eye size={16} className="text-orion-highlight" />
+        <span className="flex-1 text-sm font-mono text-slate-200">OUTGOING PAYLOAD</span>
+        <span className="text-[10px] font-mono text-slate-500">{request.model} • T={request.temperature}</span>
+        <button onClick={onClose} className="text-slate-500 hover:text-white">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-4 space-y-4 font-mono text-xs text-slate-300">
+        <Section title="System Instruction">
+          <pre className="whitespace-pre-wrap bg-slate-950 border border-slate-800 rounded-lg p-3 text-[11px]">
+            <Highlighted text={request.systemInstruction.trim().replace(/^ {4}/gm, '')} />
+          </pre>
+        </Section>
+
+        <Section title={`History (${request.history.length})`}>
+          {request.history.length === 0 ? (
+            <p className="text-slate-600">NONE</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {request.history.map(message => (
+                <li key={message.id} className="flex gap-2">
+                  <span className={`shrink-0 w-12 ${message.sender === Sender.User ? 'text-orion-highlight' : 'text-orion-accent'}`}>
+                    {message.sender === Sender.User ? 'USER' : 'ORION'}
+                  </span>
+                  <span className="whitespace-pre-wrap break-words min-w-0">
+                    <Highlighted text={message.text} />
+                    {message.attachments?.length ? <span className="text-slate-500"> [+{message.attachments.length} attachment(s)]</span> : null}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+
+        <Section title="Prompt">
+          <p className="whitespace-pre-wrap break-words">
+            {request.prompt ? <Highlighted text={request.prompt} /> : <span className="text-slate-600">EMPTY</span>}
+          </p>
+        </Section>
+
+        {request.attachments.length > 0 && (
+          <Section title="Attachments (text redacted; images and PDFs sent as-is)">
+            <ul className="space-y-1">
+              {request.attachments.map(attachment => (
+                <li key={attachment.id} className="flex gap-2">
+                  <span className="truncate">{attachment.name}</span>
+                  <span className="ml-auto text-slate-500">{attachment.mimeType} • {(attachment.size / 1024).toFixed(0)} KB</span>
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+
+        {request.tools && request.tools.length > 0 && (
+          <Section title={`Tools Offered (${request.tools.length})`}>
+            <p className="text-slate-400">{request.tools.map(tool => tool.name).join(', ')}</p>
+          </Section>
+        )}
+      </div>
+    </motion.div>
+  </motion.div>
+);
+
+export default PayloadPreview;
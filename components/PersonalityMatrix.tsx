@@ -0,0 +1,171 @@
+import React, { useRef, useState } from 'react';
+import { Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { OrionSettings, PersonalityProfile } from '../types';
+import { clampTemperature, createProfile, downloadProfiles, getAllProfiles, parseProfileFile } from '../services/profiles';
+
+interface PersonalityMatrixProps {
+  settings: OrionSettings;
+  setSettings: React.Dispatch<React.SetStateAction<OrionSettings>>;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-slate-200 focus:outline-none focus:border-orion-highlight";
+
+const PersonalityMatrix: React.FC<PersonalityMatrixProps> = ({ settings, setSettings }) => {
+  const [draft, setDraft] = useState<PersonalityProfile | null>(null);
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const profiles = getAllProfiles(settings);
+  const isNewDraft = draft !== null && !settings.customProfiles.some(p => p.id === draft.id);
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim() || !draft.tone.trim()) return;
+    const profile = { ...draft, name: draft.name.trim(), tone: draft.tone.trim(), model: draft.model?.trim() || undefined };
+    setSettings(prev => ({
+      ...prev,
+      personality: profile.id,
+      customProfiles: prev.customProfiles.some(p => p.id === profile.id)
+        ? prev.customProfiles.map(p => p.id === profile.id ? profile : p)
+        : [...prev.customProfiles, profile]
+    }));
+    setDraft(null);
+  };
+
+  const deleteDraft = () => {
+    if (!draft) return;
+    setSettings(prev => ({
+      ...prev,
+      personality: prev.personality === draft.id ? 'professional' : prev.personality,
+      customProfiles: prev.customProfiles.filter(p => p.id !== draft.id)
+    }));
+    setDraft(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProfileFile(await file.text());
+      setSettings(prev => ({ ...prev, customProfiles: [...prev.customProfiles, ...imported] }));
+      setImportMessage({ text: `Imported ${imported.length} profile(s).`, isError: false });
+    } catch (error) {
+      setImportMessage({ text: error instanceof Error ? error.message : String(error), isError: true });
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-xs font-mono text-slate-400 mb-3 uppercase tracking-wider">Personality Matrix</label>
+      <div className="grid grid-cols-3 gap-2">
+        {profiles.map((profile) => (
+          <div key={profile.id} className="relative group">
+            <button
+              onClick={() => setSettings(prev => ({ ...prev, personality: profile.id }))}
+              title={`${profile.tone}\nTemperature: ${profile.temperature}${profile.model ? `\nModel: ${profile.model}` : ''}`}
+              className={`w-full py-2 px-3 rounded-lg text-xs font-medium border transition-all truncate ${
+                settings.personality === profile.id 
+                  ? 'bg-orion-highlight/20 border-orion-highlight text-orion-highlight' 
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'
+              }`}
+            >
+              {profile.name}
+            </button>
+            {!profile.builtIn && (
+              <button
+                onClick={() => setDraft(profile)}
+                title="Edit profile"
+                className="absolute -top-1.5 -right-1.5 p-1 rounded-full bg-slate-700 text-slate-300 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <Pencil size={10} />
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => setDraft(createProfile())}
+          className="py-2 px-3 rounded-lg text-xs font-medium border border-dashed border-slate-700 text-slate-500 hover:text-orion-highlight hover:border-orion-highlight transition-all flex items-center justify-center gap-1"
+        >
+          <Plus size={12} /> New
+        </button>
+      </div>
+
+      {draft && (
+        <div className="mt-3 p-3 rounded-lg border border-slate-700 bg-slate-950/60 space-y-2">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Profile name"
+            className={inputClass}
+          />
+          <textarea
+            value={draft.tone}
+            onChange={(e) => setDraft({ ...draft, tone: e.target.value })}
+            placeholder="Tone instructions, e.g. 'dry and witty, never more than three sentences.'"
+            rows={3}
+            className={`${inputClass} resize-none`}
+          />
+          <div className="flex items-center gap-3">
+            <span className="text-[10px] font-mono text-slate-500 w-24">TEMP {draft.temperature.toFixed(2)}</span>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.05}
+              value={draft.temperature}
+              onChange={(e) => setDraft({ ...draft, temperature: clampTemperature(Number(e.target.value)) })}
+              className="flex-1 accent-sky-400"
+            />
+          </div>
+          <input
+            value={draft.model ?? ''}
+            onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+            placeholder="Model override (optional)"
+            className={`${inputClass} font-mono`}
+          />
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={saveDraft}
+              disabled={!draft.name.trim() || !draft.tone.trim()}
+              className="flex-1 py-1.5 rounded-md text-xs font-mono border border-orion-highlight/60 text-orion-highlight hover:bg-orion-highlight/10 disabled:opacity-30"
+            >
+              SAVE
+            </button>
+            {!isNewDraft && (
+              <>
+                <button onClick={() => downloadProfiles([draft])} title="Export profile" className="px-2 text-slate-400 hover:text-white">
+                  <Download size={14} />
+                </button>
+                <button onClick={deleteDraft} title="Delete profile" className="px-2 text-slate-400 hover:text-orion-danger">
+                  <Trash2 size={14} />
+                </button>
+              </>
+            )}
+            <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-md text-xs font-mono text-slate-400 hover:text-white">
+              CANCEL
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3 mt-3 text-[10px] font-mono text-slate-500">
+        <button onClick={() => importInputRef.current?.click()} className="flex items-center gap-1 hover:text-orion-highlight">
+          <Upload size={12} /> IMPORT
+        </button>
+        {settings.customProfiles.length > 0 && (
+          <button onClick={() => downloadProfiles(settings.customProfiles)} className="flex items-center gap-1 hover:text-orion-highlight">
+            <Download size={12} /> EXPORT ALL
+          </button>
+        )}
+        <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        {importMessage && (
+          <span className={`ml-auto truncate ${importMessage.isError ? 'text-orion-danger' : 'text-orion-success'}`}>
+            {importMessage.text}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PersonalityMatrix;
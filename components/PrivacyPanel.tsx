@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Eye, Plus, Trash2 } from 'lucide-react';
+import { LocationPrecision, OrionSettings, PrivacySettings } from '../types';
+import { BUILT_IN_REDACTIONS, CORE_CONTEXT_FIELDS, validateRedactionPattern } from '../services/privacy';
+
+interface PrivacyPanelProps {
+  settings: OrionSettings;
+  setSettings: React.Dispatch<React.SetStateAction<OrionSettings>>;
+  onPreview: () => void;
+}
+
+const LOCATION_PRECISIONS: { value: LocationPrecision; label: string }[] = [
+  { value: 'exact', label: 'Exact' },
+  { value: 'city', label: 'City (~11 km)' },
+  { value: 'region', label: 'Region (~111 km)' },
+];
+
+const Toggle: React.FC<{ on: boolean; onClick: () => void }> = ({ on, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`relative flex-shrink-0 w-10 h-5 rounded-full border transition-all ${
+      on ? 'bg-orion-success/30 border-orion-success' : 'bg-slate-800 border-slate-700'
+    }`}
+  >
+    <span className={`absolute top-0.5 w-3.5 h-3.5 rounded-full transition-all ${
+      on ? 'left-5 bg-orion-success' : 'left-0.5 bg-slate-500'
+    }`} />
+  </button>
+);
+
+const inputClass = "bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs font-mono text-slate-200 focus:outline-none focus:border-orion-highlight";
+
+const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ settings, setSettings, onPreview }) => {
+  const [label, setLabel] = useState('');
+  const [pattern, setPattern] = useState('');
+  const privacy = settings.privacy;
+  const patternError = pattern ? validateRedactionPattern(pattern) : null;
+
+  const updatePrivacy = (update: (privacy: PrivacySettings) => Partial<PrivacySettings>) =>
+    setSettings(prev => ({ ...prev, privacy: { ...prev.privacy, ...update(prev.privacy) } }));
+
+  const addPattern = () => {
+    if (!label.trim() || !pattern || patternError) return;
+    updatePrivacy(prev => ({
+      customPatterns: [...prev.customPatterns, { id: crypto.randomUUID(), label: label.trim(), pattern, enabled: true }]
+    }));
+    setLabel('');
+    setPattern('');
+  };
+
+  return (
+    <div>
+      <div className="flex items-center mb-3">
+        <label className="block text-xs font-mono text-slate-400 uppercase tracking-wider">Privacy</label>
+        <button
+          onClick={onPreview}
+          className="ml-auto flex items-center gap-1.5 text-[10px] font-mono text-slate-400 hover:text-orion-highlight"
+        >
+          <Eye size={12} /> PREVIEW OUTGOING PAYLOAD
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {CORE_CONTEXT_FIELDS.map(field => (
+          <div key={field.id} className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <span className="block text-xs text-slate-300">{field.label}</span>
+              <span className="block text-[10px] font-mono text-slate-500">{field.description}</span>
+            </div>
+            <Toggle
+              on={privacy.sharedFields[field.id]}
+              onClick={() => updatePrivacy(prev => ({ sharedFields: { ...prev.sharedFields, [field.id]: !prev.sharedFields[field.id] } }))}
+            />
+          </div>
+        ))}
+      </div>
+
+      <span className="block text-[10px] font-mono text-slate-500 mt-4 mb-1.5">LOCATION PRECISION</span>
+      <div className="grid grid-cols-3 gap-2">
+        {LOCATION_PRECISIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => updatePrivacy(() => ({ locationPrecision: option.value }))}
+            className={`py-2 px-2 rounded-lg text-xs font-medium border transition-all ${
+              privacy.locationPrecision === option.value
+                ? 'bg-orion-highlight/20 border-orion-highlight text-orion-highlight'
+                : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <span className="block text-[10px] font-mono text-slate-500 mt-4 mb-1.5">REDACT FROM OUTGOING TEXT</span>
+      <div className="space-y-2">
+        {BUILT_IN_REDACTIONS.map(redaction => (
+          <div key={redaction.id} className="flex items-center justify-between gap-3">
+            <span className="text-xs text-slate-300">
+              {redaction.name} <span className="font-mono text-[10px] text-slate-500">→ [{redaction.rule.label}]</span>
+            </span>
+            <Toggle
+              on={privacy.redact[redaction.id]}
+              onClick={() => updatePrivacy(prev => ({ redact: { ...prev.redact, [redaction.id]: !prev.redact[redaction.id] } }))}
+            />
+          </div>
+        ))}
+        {privacy.customPatterns.map(custom => (
+          <div key={custom.id} className="flex items-center justify-between gap-3">
+            <span className="min-w-0 truncate text-xs text-slate-300" title={custom.pattern}>
+              <span className="font-mono text-slate-400">/{custom.pattern}/</span>{' '}
+              <span className="font-mono text-[10px] text-slate-500">→ [{custom.label.toUpperCase()}]</span>
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => updatePrivacy(prev => ({ customPatterns: prev.customPatterns.filter(p => p.id !== custom.id) }))}
+                title="Remove pattern"
+                className="text-slate-500 hover:text-orion-danger"
+              >
+                <Trash2 size={12} />
+              </button>
+              <Toggle
+                on={custom.enabled}
+                onClick={() => updatePrivacy(prev => ({
+                  customPatterns: prev.customPatterns.map(p => p.id === custom.id ? { ...p, enabled: !p.enabled } : p)
+                }))}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mt-3">
+        <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Label" className={`${inputClass} w-28`} />
+        <input
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addPattern(); }}
+          placeholder="Regular expression, e.g. EMP-\d{6}"
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+        <button
+          onClick={addPattern}
+          disabled={!label.trim() || !pattern || patternError !== null}
+          title="Add pattern"
+          className="px-2 text-slate-400 hover:text-orion-highlight disabled:opacity-30"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+      {patternError && <p className="mt-1 text-[10px] font-mono text-orion-danger">{patternError}</p>}
+    </div>
+  );
+};
+
+export default PrivacyPanel;
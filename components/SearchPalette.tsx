@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Paperclip, Search, X } from 'lucide-react';
+import { ConversationSession, SearchFilters, Sender } from '../types';
+import { buildSearchIndex } from '../services/searchIndex';
+
+interface SearchPaletteProps {
+  sessions: ConversationSession[];
+  onJump: (sessionId: string, messageId: string) => void;
+  onClose: () => void;
+}
+
+const SENDER_OPTIONS: { label: string; value?: Sender }[] = [
+  { label: 'ALL' },
+  { label: 'USER', value: Sender.User },
+  { label: 'ORION', value: Sender.Orion },
+];
+
+// <input type="date"> values are local calendar days
+const parseDay = (value: string, offsetDays = 0): Date | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day + offsetDays);
+};
+
+const SearchPalette: React.FC<SearchPaletteProps> = ({ sessions, onJump, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [sender, setSender] = useState<Sender | undefined>();
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [hasAttachments, setHasAttachments] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const index = useMemo(() => buildSearchIndex(sessions), [sessions]);
+
+  const results = useMemo(() => {
+    const filters: SearchFilters = {
+      sender,
+      from: parseDay(fromDay),
+      to: parseDay(toDay, 1), // The "to" day itself is included
+      hasAttachments
+    };
+    return index.search(query, filters);
+  }, [index, query, sender, fromDay, toDay, hasAttachments]);
+
+  useEffect(() => setSelectedIndex(0), [results]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[selectedIndex]) {
+      const { document } = results[selectedIndex];
+      onJump(document.sessionId, document.messageId);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-start justify-center p-4 pt-[12vh]"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: -10 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        className="w-full max-w-2xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden"
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-slate-800">
+          <Search size={16} className="text-orion-highlight" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search all conversations..."
+            className="flex-1 bg-transparent text-sm font-mono text-slate-200 placeholder-slate-600 focus:outline-none"
+          />
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-slate-800 text-[10px] font-mono">
+          {SENDER_OPTIONS.map(option => (
+            <button
+              key={option.label}
+              onClick={() => setSender(option.value)}
+              className={`px-2 py-1 rounded-md border transition-all ${
+                sender === option.value
+                  ? 'bg-orion-highlight/20 border-orion-highlight text-orion-highlight'
+                  : 'bg-slate-800 border-slate-700 text-slate-500 hover:border-slate-500'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <span className="text-slate-600 ml-2">FROM</span>
+          <input type="date" value={fromDay} onChange={(e) => setFromDay(e.target.value)} className="bg-slate-800 border border-slate-700 rounded-md px-1 py-0.5 text-slate-300" />
+          <span className="text-slate-600">TO</span>
+          <input type="date" value={toDay} onChange={(e) => setToDay(e.target.value)} className="bg-slate-800 border border-slate-700 rounded-md px-1 py-0.5 text-slate-300" />
+          <button
+            onClick={() => setHasAttachments(v => !v)}
+            className={`ml-auto flex items-center gap-1 px-2 py-1 rounded-md border transition-all ${
+              hasAttachments
+                ? 'bg-orion-highlight/20 border-orion-highlight text-orion-highlight'
+                : 'bg-slate-800 border-slate-700 text-slate-500 hover:border-slate-500'
+            }`}
+          >
+            <Paperclip size={10} /> HAS ATTACHMENTS
+          </button>
+        </div>
+
+        <ul className="max-h-[50vh] overflow-y-auto p-2">
+          {query.trim() && results.length === 0 && (
+            <li className="text-[10px] font-mono text-slate-600 text-center py-6">NO MATCHES</li>
+          )}
+          {!query.trim() && (
+            <li className="text-[10px] font-mono text-slate-600 text-center py-6">
+              {index.size} MESSAGES INDEXED • ↑↓ TO NAVIGATE • ENTER TO OPEN
+            </li>
+          )}
+          {results.map(({ document, snippet }, i) => (
+            <li key={`${document.sessionId}:${document.messageId}`}>
+              <button
+                onClick={() => onJump(document.sessionId, document.messageId)}
+                onMouseEnter={() => setSelectedIndex(i)}
+                className={`w-full text-left rounded-lg px-3 py-2 transition-colors ${i === selectedIndex ? 'bg-slate-800' : ''}`}
+              >
+                <div className="flex items-center gap-2 text-[10px] font-mono text-slate-500 mb-1">
+                  <span className={document.sender === Sender.User ? 'text-orion-highlight' : 'text-orion-accent'}>
+                    {document.sender === Sender.User ? 'USER' : 'ORION'}
+                  </span>
+                  <span className="truncate text-slate-400">{document.sessionTitle}</span>
+                  {document.hasAttachments && <Paperclip size={10} />}
+                  <span className="ml-auto whitespace-nowrap">
+                    {document.timestamp.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-300 leading-relaxed">
+                  {snippet.map((part, j) => part.match
+                    ? <mark key={j} className="bg-orion-highlight/30 text-white rounded px-0.5">{part.text}</mark>
+                    : <React.Fragment key={j}>{part.text}</React.Fragment>)}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default SearchPalette;
@@ -0,0 +1,194 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Download, MessageSquarePlus, Pencil, Search, Trash2, Upload, X } from 'lucide-react';
+import { ConversationExportFormat, ConversationSession } from '../types';
+
+const EXPORT_LABELS: Record<ConversationExportFormat, string> = {
+  markdown: 'MD',
+  html: 'HTML',
+  json: 'JSON',
+};
+
+interface SessionPanelProps {
+  sessions: ConversationSession[];
+  activeSessionId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string, format: ConversationExportFormat) => void;
+  onImport: (file: File) => Promise<void>; // Rejects with a user-facing message
+  onClose: () => void;
+}
+
+const SessionPanel: React.FC<SessionPanelProps> = ({
+  sessions, activeSessionId, onSelect, onCreate, onRename, onDelete, onExport, onImport, onClose
+}) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [exportMenuId, setExportMenuId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    onImport(file)
+      .then(() => setImportError(null))
+      .catch(error => setImportError(error instanceof Error ? error.message : String(error)));
+  };
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleSessions = normalizedQuery
+    ? sessions.filter(s =>
+        s.title.toLowerCase().includes(normalizedQuery) ||
+        s.messages.some(m => m.text.toLowerCase().includes(normalizedQuery)))
+    : sessions;
+
+  const startRename = (session: ConversationSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <motion.aside
+      initial={{ x: -320, opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      exit={{ x: -320, opacity: 0 }}
+      transition={{ type: 'tween', duration: 0.25 }}
+      className="fixed top-0 left-0 z-40 h-full w-80 bg-slate-900/95 backdrop-blur-xl border-r border-slate-800 flex flex-col shadow-2xl"
+    >
+      <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+        <span className="text-xs font-mono tracking-widest text-slate-300">SESSIONS</span>
+        <div className="flex items-center gap-1">
+          <button onClick={onCreate} title="New session" className="p-1.5 text-slate-400 hover:text-orion-highlight transition-colors">
+            <MessageSquarePlus size={16} />
+          </button>
+          <button onClick={() => importInputRef.current?.click()} title="Import conversation (JSON)" className="p-1.5 text-slate-400 hover:text-orion-highlight transition-colors">
+            <Upload size={16} />
+          </button>
+          <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {importError && (
+        <div className="flex items-start justify-between gap-2 px-4 py-2 text-[10px] font-mono text-orion-danger border-b border-slate-800">
+          <span>{importError}</span>
+          <button onClick={() => setImportError(null)} className="hover:text-white">
+            <X size={10} />
+          </button>
+        </div>
+      )}
+
+      <div className="p-3 border-b border-slate-800">
+        <div className="flex items-center gap-2 bg-slate-800 border border-slate-700 rounded-lg px-2 focus-within:border-orion-highlight">
+          <Search size={12} className="text-slate-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search sessions..."
+            className="flex-1 bg-transparent py-1.5 text-xs font-mono text-slate-200 placeholder-slate-600 focus:outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {visibleSessions.length === 0 && (
+          <p className="text-[10px] font-mono text-slate-600 text-center py-6">NO SESSIONS FOUND</p>
+        )}
+        {visibleSessions.map(session => {
+          const isActive = session.id === activeSessionId;
+          return (
+            <div
+              key={session.id}
+              onClick={() => editingId !== session.id && onSelect(session.id)}
+              className={`group rounded-lg px-3 py-2 cursor-pointer border transition-all ${
+                isActive
+                  ? 'bg-orion-highlight/10 border-orion-highlight/40'
+                  : 'border-transparent hover:bg-slate-800'
+              }`}
+            >
+              {editingId === session.id ? (
+                <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    onBlur={commitRename}
+                    className="flex-1 bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-xs text-slate-200 focus:outline-none focus:border-orion-highlight"
+                  />
+                  <button onMouseDown={commitRename} className="p-1 text-orion-success">
+                    <Check size={12} />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-xs truncate ${isActive ? 'text-orion-highlight' : 'text-slate-300'}`}>
+                    {session.title}
+                  </span>
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setExportMenuId(exportMenuId === session.id ? null : session.id); }}
+                      title="Export"
+                      className="p-1 text-slate-500 hover:text-orion-highlight"
+                    >
+                      <Download size={12} />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); startRename(session); }}
+                      title="Rename"
+                      className="p-1 text-slate-500 hover:text-white"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onDelete(session.id); }}
+                      title="Delete"
+                      className="p-1 text-slate-500 hover:text-orion-danger"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              )}
+              {exportMenuId === session.id && (
+                <div className="flex gap-1 mt-1" onClick={(e) => e.stopPropagation()}>
+                  {(Object.keys(EXPORT_LABELS) as ConversationExportFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => { onExport(session.id, format); setExportMenuId(null); }}
+                      className="px-2 py-0.5 rounded border border-slate-700 text-[10px] font-mono text-slate-400 hover:border-orion-highlight hover:text-orion-highlight"
+                    >
+                      {EXPORT_LABELS[format]}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="text-[10px] font-mono text-slate-600 mt-0.5">
+                {session.updatedAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })} • {session.messages.length} MSG
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </motion.aside>
+  );
+};
+
+export default SessionPanel;
@@ -26,7 +26,7 @@ const SystemHUD: React.FC<SystemHUDProps> = ({ context }) => {
       <div className="flex items-center space-x-2" title="Connectivity">
         {context.isOnline ? <Wifi size={14} className="text-orion-highlight" /> : <WifiOff size={14} className="text-red-500" />}
         <span className={context.isOnline ? 'text-orion-highlight' : 'text-red-500'}>
-          {context.isOnline ? 'NET_OK' : 'OFFLINE'}
+          {context.isOnline ? `NET_${context.connection?.effectiveType?.toUpperCase() ?? 'OK'}` : 'OFFLINE'}
         </span>
       </div>
 
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { AlarmClock, BellRing, Plus, Repeat, X } from 'lucide-react';
+import { NewTask, RecurrenceUnit, ScheduledTask } from '../types';
+import { SNOOZE_OPTIONS } from '../constants';
+import { describeRecurrence, firesAt } from '../services/scheduler';
+
+interface TaskPanelProps {
+  tasks: ScheduledTask[]; // Pending, soonest first
+  recent: ScheduledTask[]; // Fired one-offs that can still be snoozed
+  now: number;
+  onSchedule: (task: NewTask) => void;
+  onSnooze: (id: string, minutes: number) => void;
+  onCancel: (id: string) => void;
+}
+
+// "in 45s", "in 12m", "in 3h 05m", or the date for anything past a day
+const formatCountdown = (at: number, now: number): string => {
+  const seconds = Math.max(0, Math.round((at - now) / 1000));
+  if (seconds < 60) return `in ${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `in ${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `in ${hours}h ${String(minutes % 60).padStart(2, '0')}m`;
+  return new Date(at).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, recent, now, onSchedule, onSnooze, onCancel }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [label, setLabel] = useState('');
+  const [minutes, setMinutes] = useState(10);
+  const [repeat, setRepeat] = useState<RecurrenceUnit | ''>('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim() || minutes <= 0) return;
+    onSchedule({
+      label: label.trim(),
+      dueAt: Date.now() + minutes * 60000,
+      recurrence: repeat ? { unit: repeat, interval: 1 } : undefined,
+    });
+    setLabel('');
+  };
+
+  const snoozeButtons = (task: ScheduledTask) => SNOOZE_OPTIONS.map(option => (
+    <button
+      key={option}
+      onClick={() => onSnooze(task.id, option)}
+      title={`Snooze ${option} minutes`}
+      className="px-1.5 py-0.5 rounded border border-slate-700 text-[10px] text-slate-400 hover:text-orion-highlight hover:border-orion-highlight/50 transition-colors"
+    >
+      +{option}m
+    </button>
+  ));
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title="Timers & reminders"
+        className="flex items-center gap-1.5 p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-white"
+      >
+        <AlarmClock size={18} />
+        {tasks.length > 0 && (
+          <span className="text-[10px] font-mono text-orion-highlight">{tasks.length}</span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            className="absolute right-0 mt-2 w-80 z-30 bg-slate-900/95 backdrop-blur-xl border border-slate-800 rounded-xl shadow-2xl font-mono text-xs"
+          >
+            <div className="p-3 border-b border-slate-800 flex justify-between items-center">
+              <span className="tracking-widest text-slate-300">TASKS</span>
+              <button onClick={() => setIsOpen(false)} className="text-slate-500 hover:text-white transition-colors">
+                <X size={14} />
+              </button>
+            </div>
+
+            <div className="max-h-72 overflow-y-auto p-2 space-y-1">
+              {recent.map(task => (
+                <div key={`recent-${task.id}`} className="flex items-center gap-2 px-2 py-1.5 rounded bg-orion-highlight/5 border border-orion-highlight/20">
+                  <BellRing size={12} className="text-orion-highlight shrink-0" />
+                  <span className="flex-1 truncate text-slate-300" title={task.label}>{task.label}</span>
+                  {snoozeButtons(task)}
+                </div>
+              ))}
+              {tasks.length === 0 && recent.length === 0 && (
+                <div className="px-2 py-3 text-slate-600">No timers or reminders. Ask Orion, or add one below.</div>
+              )}
+              {tasks.map(task => (
+                <div key={task.id} className="group px-2 py-1.5 rounded hover:bg-slate-800/60">
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 truncate text-slate-200" title={task.label}>{task.label}</span>
+                    <span className="text-orion-highlight shrink-0">{formatCountdown(firesAt(task), now)}</span>
+                    <button onClick={() => onCancel(task.id)} title="Cancel" className="text-slate-600 hover:text-orion-danger transition-colors">
+                      <X size={12} />
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-1 mt-1 text-[10px] text-slate-500">
+                    {task.recurrence && (
+                      <span className="flex items-center gap-1">
+                        <Repeat size={10} /> {describeRecurrence(task.recurrence)}
+                        {task.snoozedUntil !== undefined && ' · snoozed'}
+                      </span>
+                    )}
+                    <span className="flex gap-1 ml-auto opacity-0 group-hover:opacity-100 transition-opacity">{snoozeButtons(task)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <form onSubmit={handleAdd} className="p-2 border-t border-slate-800 flex items-center gap-1.5">
+              <input
+                value={label}
+                onChange={e => setLabel(e.target.value)}
+                placeholder="Remind me to..."
+                className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200 placeholder-slate-600 focus:outline-none focus:border-orion-highlight/50"
+              />
+              <input
+                type="number"
+                min={1}
+                value={minutes}
+                onChange={e => setMinutes(Number(e.target.value))}
+                title="Minutes from now"
+                className="w-12 bg-slate-950 border border-slate-700 rounded px-1 py-1 text-slate-200 focus:outline-none focus:border-orion-highlight/50"
+              />
+              <select
+                value={repeat}
+                onChange={e => setRepeat(e.target.value as RecurrenceUnit | '')}
+                title="Repeat"
+                className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-slate-300 focus:outline-none"
+              >
+                <option value="">once</option>
+                <option value="hour">hourly</option>
+                <option value="day">daily</option>
+                <option value="week">weekly</option>
+              </select>
+              <button type="submit" title="Add" className="p-1 text-slate-400 hover:text-orion-highlight transition-colors">
+                <Plus size={14} />
+              </button>
+            </form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default TaskPanel;
@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, Plus, Trash2, X } from 'lucide-react';
+import { ConversationSession, OrionSettings, TelemetryRecord } from '../types';
+import {
+  clearTelemetry, groupTelemetry, listTelemetry, percentile, subscribeTelemetry, summarizeTelemetry, toDayKey, tokensOnDay, TelemetryTotals
+} from '../services/telemetry';
+
+interface TelemetryPanelProps {
+  settings: OrionSettings;
+  setSettings: React.Dispatch<React.SetStateAction<OrionSettings>>;
+  sessions: ConversationSession[];
+}
+
+type TelemetryView = 'models' | 'days' | 'sessions';
+
+const DAYS_SHOWN = 7;
+
+const formatTokens = (count: number): string =>
+  count >= 1_000_000 ? `${(count / 1_000_000).toFixed(2)}M` : count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+
+const formatCost = (totals: TelemetryTotals): string =>
+  `$${totals.cost.toFixed(totals.cost < 1 ? 4 : 2)}${totals.unpricedCalls > 0 ? '*' : ''}`;
+
+const formatMs = (ms: number | null): string =>
+  ms === null ? '--' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+
+const priceInputClass = "w-16 bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 text-right focus:border-orion-highlight focus:outline-none";
+
+const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ settings, setSettings, sessions }) => {
+  const [records, setRecords] = useState<TelemetryRecord[]>([]);
+  const [view, setView] = useState<TelemetryView>('models');
+  const [newModel, setNewModel] = useState('');
+
+  useEffect(() => {
+    listTelemetry()
+      .then(setRecords)
+      .catch(error => console.error("Telemetry unavailable:", error));
+    return subscribeTelemetry(record => setRecords(prev => [record, ...prev]));
+  }, []);
+
+  const handleClear = () => {
+    clearTelemetry()
+      .then(() => setRecords([]))
+      .catch(error => console.error("Telemetry failure:", error));
+  };
+
+  const setPrice = (model: string, field: 'input' | 'output', value: number) =>
+    setSettings(prev => ({
+      ...prev,
+      modelPrices: { ...prev.modelPrices, [model]: { ...(prev.modelPrices[model] ?? { input: 0, output: 0 }), [field]: value } }
+    }));
+
+  const removePrice = (model: string) =>
+    setSettings(prev => {
+      const { [model]: _removed, ...rest } = prev.modelPrices;
+      return { ...prev, modelPrices: rest };
+    });
+
+  const addPrice = () => {
+    const model = newModel.trim();
+    if (!model || settings.modelPrices[model]) return;
+    setPrice(model, 'input', 0);
+    setNewModel('');
+  };
+
+  const today = toDayKey(new Date());
+  const todayRecords = records.filter(record => toDayKey(record.startedAt) === today);
+  const todayTotals = summarizeTelemetry(todayRecords, settings.modelPrices);
+  const todayTokens = tokensOnDay(records, today);
+  const budget = settings.dailyTokenBudget;
+
+  // Latency only means something for calls that completed
+  const completed = records.filter(record => record.outcome === 'success');
+  const latencies = completed.map(record => record.latencyMs);
+  const firstTokens = completed.flatMap(record => record.timeToFirstTokenMs === null ? [] : [record.timeToFirstTokenMs]);
+
+  const recentDays = Array.from({ length: DAYS_SHOWN }, (_, i) => toDayKey(new Date(Date.now() - i * 24 * 60 * 60 * 1000)));
+  const byDay = groupTelemetry(records, record => toDayKey(record.startedAt));
+  const sessionTitle = (id: string) => sessions.find(s => s.id === id)?.title ?? 'Deleted session';
+
+  const rows: { key: string; label: string; records: TelemetryRecord[] }[] =
+    view === 'models'
+      ? [...groupTelemetry(records, record => record.model)].map(([model, group]) => ({ key: model, label: model, records: group }))
+      : view === 'days'
+        ? recentDays.map(day => ({ key: day, label: day === today ? 'Today' : day, records: byDay.get(day) ?? [] }))
+        : [...groupTelemetry(records, record => record.sessionId ?? '')].map(([id, group]) => ({
+            key: id || 'none', label: id ? sessionTitle(id) : 'No session', records: group
+          }));
+
+  return (
+    <div className="bg-slate-950 rounded-lg p-4 font-mono text-[10px] text-slate-500 overflow-hidden border border-slate-800 space-y-3">
+      <div className="flex items-center gap-2 text-slate-300">
+        <Activity size={12} />
+        <span>USAGE TELEMETRY</span>
+        {records.length > 0 && (
+          <button onClick={handleClear} title="Clear telemetry" className="ml-auto text-slate-500 hover:text-orion-danger">
+            <Trash2 size={12} />
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {[
+          ['TODAY', `${formatTokens(todayTokens)} tok`],
+          ['COST', formatCost(todayTotals)],
+          ['P50 / P95', `${formatMs(percentile(latencies, 50))} / ${formatMs(percentile(latencies, 95))}`],
+          ['TTFT P50 / P95', `${formatMs(percentile(firstTokens, 50))} / ${formatMs(percentile(firstTokens, 95))}`],
+        ].map(([label, value]) => (
+          <div key={label} className="bg-slate-900/60 rounded px-2 py-1.5">
+            <span className="block text-slate-600">{label}</span>
+            <span className="block text-slate-200">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <span>DAILY BUDGET</span>
+          <input
+            type="number"
+            min={0}
+            step={10000}
+            value={budget}
+            onChange={(e) => setSettings(prev => ({ ...prev, dailyTokenBudget: Math.max(0, Number(e.target.value) || 0) }))}
+            className={`${priceInputClass} w-24`}
+          />
+          <span>{budget > 0 ? 'TOKENS' : 'OFF'}</span>
+        </div>
+        {budget > 0 && (
+          <div className="h-1 rounded-full bg-slate-800 overflow-hidden">
+            <div
+              className={`h-full ${todayTokens >= budget ? 'bg-orion-danger' : todayTokens >= budget * 0.8 ? 'bg-orion-warning' : 'bg-orion-success'}`}
+              style={{ width: `${Math.min(100, (todayTokens / budget) * 100)}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex gap-3 mb-1.5">
+          {(['models', 'days', 'sessions'] as TelemetryView[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={view === option ? 'text-orion-highlight' : 'hover:text-slate-300'}
+            >
+              {option.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        {rows.length === 0 ? (
+          <p>NO CALLS RECORDED</p>
+        ) : (
+          <table className="w-full">
+            <thead className="text-slate-600 text-left">
+              <tr>
+                <th className="font-normal">{view === 'models' ? 'MODEL' : view === 'days' ? 'DAY' : 'SESSION'}</th>
+                <th className="font-normal text-right">CALLS</th>
+                <th className="font-normal text-right">IN</th>
+                <th className="font-normal text-right">OUT</th>
+                <th className="font-normal text-right">COST</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const totals = summarizeTelemetry(row.records, settings.modelPrices);
+                return (
+                  <tr key={row.key} className="text-slate-300">
+                    <td className="truncate max-w-[10rem]" title={row.label}>{row.label}</td>
+                    <td className="text-right">{totals.calls}{totals.errors > 0 && <span className="text-orion-danger"> ({totals.errors}✗)</span>}</td>
+                    <td className="text-right">{formatTokens(totals.promptTokens)}</td>
+                    <td className="text-right">{formatTokens(totals.responseTokens)}</td>
+                    <td className="text-right">{formatCost(totals)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        {records.some(record => record.estimated) && (
+          <p className="mt-1 text-slate-600">Token counts for backends that report no usage are estimated.</p>
+        )}
+        {records.some(record => !settings.modelPrices[record.model]) && (
+          <p className="text-slate-600">* Excludes models without a price.</p>
+        )}
+      </div>
+
+      <div>
+        <span className="block mb-1">PRICES (USD / 1M TOKENS, IN / OUT)</span>
+        <ul className="space-y-1">
+          {Object.entries(settings.modelPrices).map(([model, price]) => (
+            <li key={model} className="flex items-center gap-2">
+              <span className="flex-1 truncate text-slate-300" title={model}>{model}</span>
+              <input type="number" min={0} step={0.05} value={price.input} onChange={(e) => setPrice(model, 'input', Math.max(0, Number(e.target.value) || 0))} className={priceInputClass} />
+              <input type="number" min={0} step={0.05} value={price.output} onChange={(e) => setPrice(model, 'output', Math.max(0, Number(e.target.value) || 0))} className={priceInputClass} />
+              <button onClick={() => removePrice(model)} title="Remove price" className="text-slate-500 hover:text-orion-danger">
+                <X size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex items-center gap-2 mt-1.5">
+          <input
+            value={newModel}
+            onChange={(e) => setNewModel(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addPrice(); }}
+            placeholder="model name"
+            className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-slate-200 focus:border-orion-highlight focus:outline-none"
+          />
+          <button onClick={addPrice} disabled={!newModel.trim()} title="Add price" className="text-slate-500 hover:text-orion-highlight disabled:opacity-30">
+            <Plus size={12} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TelemetryPanel;
@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { OrionSettings, OrionState, OrionTheme, ThemeColor } from '../types';
+import { applyTheme, createTheme, getActiveTheme, getAllThemes, THEME_COLORS } from '../services/themes';
+
+interface ThemeEditorProps {
+  settings: OrionSettings;
+  setSettings: React.Dispatch<React.SetStateAction<OrionSettings>>;
+}
+
+const ORB_STATES = [OrionState.Idle, OrionState.Listening, OrionState.Thinking, OrionState.Responding, OrionState.Error];
+const BACKGROUND_STOPS: (keyof OrionTheme['background'])[] = ['from', 'via', 'to'];
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-slate-200 focus:outline-none focus:border-orion-highlight";
+
+const ColorField: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center gap-2 text-[10px] font-mono text-slate-400 capitalize">
+    <input
+      type="color"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-6 h-6 rounded border border-slate-700 bg-transparent cursor-pointer"
+    />
+    {label}
+  </label>
+);
+
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ settings, setSettings }) => {
+  const [draft, setDraft] = useState<OrionTheme | null>(null);
+
+  const themes = getAllThemes(settings);
+  const activeTheme = getActiveTheme(settings);
+  const isNewDraft = draft !== null && !settings.customThemes.some(t => t.id === draft.id);
+
+  // Preview the draft across the app while it is being edited
+  useEffect(() => {
+    applyTheme(draft ?? activeTheme);
+    return () => applyTheme(activeTheme);
+  }, [draft, activeTheme]);
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    const theme = { ...draft, name: draft.name.trim() };
+    setSettings(prev => ({
+      ...prev,
+      theme: theme.id,
+      customThemes: prev.customThemes.some(t => t.id === theme.id)
+        ? prev.customThemes.map(t => t.id === theme.id ? theme : t)
+        : [...prev.customThemes, theme]
+    }));
+    setDraft(null);
+  };
+
+  const deleteDraft = () => {
+    if (!draft) return;
+    setSettings(prev => ({
+      ...prev,
+      theme: prev.theme === draft.id ? 'orion' : prev.theme,
+      customThemes: prev.customThemes.filter(t => t.id !== draft.id)
+    }));
+    setDraft(null);
+  };
+
+  const setPalette = (color: ThemeColor, value: string) =>
+    setDraft(prev => prev && { ...prev, palette: { ...prev.palette, [color]: value } });
+  const setOrb = (state: OrionState, value: string) =>
+    setDraft(prev => prev && { ...prev, orb: { ...prev.orb, [state]: value } });
+  const setBackground = (stop: keyof OrionTheme['background'], value: string) =>
+    setDraft(prev => prev && { ...prev, background: { ...prev.background, [stop]: value } });
+
+  return (
+    <div>
+      <label className="block text-xs font-mono text-slate-400 mb-3 uppercase tracking-wider">Theme</label>
+      <div className="grid grid-cols-3 gap-2">
+        {themes.map((theme) => (
+          <div key={theme.id} className="relative group">
+            <button
+              onClick={() => setSettings(prev => ({ ...prev, theme: theme.id }))}
+              className={`w-full py-2 px-3 rounded-lg text-xs font-medium border transition-all flex items-center gap-2 ${
+                settings.theme === theme.id
+                  ? 'bg-orion-highlight/20 border-orion-highlight text-orion-highlight'
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'
+              }`}
+            >
+              <span className="flex shrink-0">
+                {[theme.palette.highlight, theme.palette.accent, theme.background.from].map((color, i) => (
+                  <span key={i} className="w-2.5 h-2.5 rounded-full -ml-1 first:ml-0 border border-slate-900" style={{ background: color }} />
+                ))}
+              </span>
+              <span className="truncate">{theme.name}</span>
+            </button>
+            {!theme.builtIn && (
+              <button
+                onClick={() => setDraft(theme)}
+                title="Edit theme"
+                className="absolute -top-1.5 -right-1.5 p-1 rounded-full bg-slate-700 text-slate-300 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <Pencil size={10} />
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => setDraft(createTheme(activeTheme))}
+          title="New theme based on the current one"
+          className="py-2 px-3 rounded-lg text-xs font-medium border border-dashed border-slate-700 text-slate-500 hover:text-orion-highlight hover:border-orion-highlight transition-all flex items-center justify-center gap-1"
+        >
+          <Plus size={12} /> New
+        </button>
+      </div>
+
+      {draft && (
+        <div className="mt-3 p-3 rounded-lg border border-slate-700 bg-slate-950/60 space-y-3">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Theme name"
+            className={inputClass}
+          />
+          <div>
+            <span className="block text-[10px] font-mono text-slate-500 mb-1.5">PALETTE</span>
+            <div className="grid grid-cols-4 gap-2">
+              {THEME_COLORS.map(color => (
+                <ColorField key={color} label={color} value={draft.palette[color]} onChange={(value) => setPalette(color, value)} />
+              ))}
+            </div>
+          </div>
+          <div>
+            <span className="block text-[10px] font-mono text-slate-500 mb-1.5">ORB</span>
+            <div className="grid grid-cols-4 gap-2">
+              {ORB_STATES.map(state => (
+                <ColorField key={state} label={state} value={draft.orb[state]} onChange={(value) => setOrb(state, value)} />
+              ))}
+            </div>
+          </div>
+          <div>
+            <span className="block text-[10px] font-mono text-slate-500 mb-1.5">BACKGROUND</span>
+            <div className="grid grid-cols-4 gap-2">
+              {BACKGROUND_STOPS.map(stop => (
+                <ColorField key={stop} label={stop} value={draft.background[stop]} onChange={(value) => setBackground(stop, value)} />
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={saveDraft}
+              disabled={!draft.name.trim()}
+              className="flex-1 py-1.5 rounded-md text-xs font-mono border border-orion-highlight/60 text-orion-highlight hover:bg-orion-highlight/10 disabled:opacity-30"
+            >
+              SAVE
+            </button>
+            {!isNewDraft && (
+              <button onClick={deleteDraft} title="Delete theme" className="px-2 text-slate-400 hover:text-orion-danger">
+                <Trash2 size={14} />
+              </button>
+            )}
+            <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-md text-xs font-mono text-slate-400 hover:text-white">
+              CANCEL
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThemeEditor;
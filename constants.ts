@@ -1,9 +1,179 @@
-import { OrionState, OrionSettings } from './types';
+import { OrionState, OrionSettings, ProviderId, ActionCategory, PersonalityProfile, ProactiveRule, OrionTheme, ModelPrice, PrivacySettings } from './types';
+
+// Estimated USD per million tokens, editable in the telemetry view. Local and mock models are free.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-preview': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+};
+
+export const DEFAULT_PRIVACY: PrivacySettings = {
+  sharedFields: {
+    currentTime: true,
+    isOnline: true,
+    platform: true,
+  },
+  locationPrecision: 'city',
+  redact: {
+    email: true,
+    phone: true,
+    card: true,
+  },
+  customPatterns: [],
+};
 
 export const DEFAULT_SETTINGS: OrionSettings = {
   personality: 'professional',
   visualIntensity: 'balanced',
   voiceEnabled: false,
+  voiceMode: 'push-to-talk',
+  provider: 'gemini',
+  model: 'gemini-2.5-flash-preview',
+  providerBaseUrl: 'http://localhost:11434/v1',
+  providerApiKey: '',
+  mockLatencyMs: 400,
+  mockFailEvery: 0,
+  contextTokenBudget: 8000,
+  permissions: {
+    settings: 'ask',
+    notifications: 'ask',
+    geolocation: 'ask',
+    clipboard: 'ask',
+    network: 'ask',
+    // Remembered facts are reviewable and deletable in the memory inspector
+    memory: 'allow',
+  },
+  customProfiles: [],
+  triggers: {},
+  sensors: {
+    battery: true,
+    network: true,
+    geolocation: false,
+    visibility: true,
+    locale: true,
+    'reduced-motion': true,
+    hardware: false,
+  },
+  theme: 'orion',
+  customThemes: [],
+  modelPrices: DEFAULT_MODEL_PRICES,
+  dailyTokenBudget: 0,
+  privacy: DEFAULT_PRIVACY,
+};
+
+export const BUILT_IN_PROFILES: PersonalityProfile[] = [
+  {
+    id: 'professional',
+    name: 'Professional',
+    tone: "efficient, precise, and polite. Use technical terminology when appropriate but prioritize clarity.",
+    temperature: 0.7,
+    builtIn: true,
+  },
+  {
+    id: 'friendly',
+    name: 'Friendly',
+    tone: "warm, approachable, and conversational. Use emojis sparingly and sound like a helpful companion.",
+    temperature: 0.8,
+    builtIn: true,
+  },
+  {
+    id: 'direct',
+    name: 'Direct',
+    tone: "concise to the point of brevity. Eliminate pleasantries and focus entirely on the data or action.",
+    temperature: 0.5,
+    builtIn: true,
+  },
+];
+
+export const ACTION_CATEGORY_LABELS: Record<ActionCategory, string> = {
+  settings: 'Settings Changes',
+  notifications: 'Notifications & Timers',
+  geolocation: 'Geolocation Reads',
+  clipboard: 'Clipboard',
+  network: 'Outbound Requests',
+  memory: 'Long-Term Memory',
+};
+
+// Device events Orion speaks up about unprompted; toggled per rule in settings
+export const PROACTIVE_RULES: ProactiveRule[] = [
+  {
+    id: 'low-battery',
+    name: 'Low Battery',
+    condition: { type: 'battery-below', threshold: 0.2 },
+    message: "Battery at {battery} and discharging. Consider lowering visual intensity or connecting a charger to conserve energy.",
+    action: 'both',
+    cooldownMinutes: 60,
+    enabled: true,
+  },
+  {
+    id: 'charger-connected',
+    name: 'Charger Connected',
+    condition: { type: 'charging-changed', charging: true },
+    message: "External power detected. Charging from {battery}.",
+    action: 'message',
+    cooldownMinutes: 10,
+    enabled: true,
+  },
+  {
+    id: 'connection-lost',
+    name: 'Connection Lost',
+    condition: { type: 'connectivity-changed', online: false },
+    message: "Network link lost. I will hold your messages and transmit them once the connection returns.",
+    action: 'both',
+    cooldownMinutes: 5,
+    enabled: true,
+  },
+  {
+    id: 'connection-restored',
+    name: 'Connection Restored',
+    condition: { type: 'connectivity-changed', online: true },
+    message: "Network link restored. All systems reachable.",
+    action: 'message',
+    cooldownMinutes: 5,
+    enabled: true,
+  },
+  {
+    id: 'morning-briefing',
+    name: 'Morning Greeting',
+    condition: { type: 'time-window', startHour: 6, endHour: 10 },
+    message: "Good morning. Local time is {time}. Battery at {battery}.",
+    action: 'message',
+    cooldownMinutes: 12 * 60,
+    enabled: false,
+  },
+  {
+    id: 'late-night',
+    name: 'Late Night Notice',
+    condition: { type: 'time-window', startHour: 23, endHour: 5 },
+    message: "It is {time}. Consider wrapping up for the night.",
+    action: 'message',
+    cooldownMinutes: 12 * 60,
+    enabled: false,
+  },
+];
+
+// Live camera mode: seconds between frames, and the question sent with each one
+export const LIVE_FRAME_INTERVALS = [5, 10, 30];
+export const DEFAULT_LIVE_QUESTION = "This is a live camera frame. Tell me if anything important changed since the previous one; otherwise reply with a single short line.";
+
+// Snooze choices offered on fired and pending tasks, in minutes
+export const SNOOZE_OPTIONS = [5, 15, 60];
+
+export const CONTEXT_BUDGET_OPTIONS = [2000, 8000, 32000];
+
+// Cognition backends selectable in the configuration modal
+export const PROVIDER_OPTIONS: Record<ProviderId, { label: string; models: string[] }> = {
+  gemini: {
+    label: 'Gemini',
+    models: ['gemini-2.5-flash-preview', 'gemini-2.5-pro'],
+  },
+  'openai-compatible': {
+    label: 'Local / OpenAI',
+    models: ['llama3.1', 'qwen2.5', 'mistral'],
+  },
+  mock: {
+    label: 'Offline Mock',
+    models: ['echo', 'scripted'],
+  },
 };
 
 // Colors for the Orb based on state
@@ -15,4 +185,90 @@ export const ORB_COLORS = {
   [OrionState.Error]: '#f87171', // Red
 };
 
+// The first theme is the default and matches the :root fallbacks in index.html
+export const BUILT_IN_THEMES: OrionTheme[] = [
+  {
+    id: 'orion',
+    name: 'Orion',
+    palette: {
+      base: '#0f172a',
+      surface: '#1e293b',
+      highlight: '#38bdf8',
+      accent: '#818cf8',
+      success: '#34d399',
+      warning: '#fbbf24',
+      danger: '#f87171',
+    },
+    orb: ORB_COLORS,
+    background: { from: '#0f172a', via: '#0f172a', to: '#000000' },
+    builtIn: true,
+  },
+  {
+    id: 'nebula',
+    name: 'Nebula',
+    palette: {
+      base: '#1a1030',
+      surface: '#2a1b47',
+      highlight: '#e879f9',
+      accent: '#a78bfa',
+      success: '#4ade80',
+      warning: '#facc15',
+      danger: '#fb7185',
+    },
+    orb: {
+      [OrionState.Idle]: '#e879f9',
+      [OrionState.Listening]: '#4ade80',
+      [OrionState.Thinking]: '#a78bfa',
+      [OrionState.Responding]: '#f0abfc',
+      [OrionState.Error]: '#fb7185',
+    },
+    background: { from: '#3b0764', via: '#1a1030', to: '#05010d' },
+    builtIn: true,
+  },
+  {
+    id: 'solar',
+    name: 'Solar',
+    palette: {
+      base: '#1c1410',
+      surface: '#2d211a',
+      highlight: '#fb923c',
+      accent: '#fbbf24',
+      success: '#a3e635',
+      warning: '#fde047',
+      danger: '#ef4444',
+    },
+    orb: {
+      [OrionState.Idle]: '#fb923c',
+      [OrionState.Listening]: '#a3e635',
+      [OrionState.Thinking]: '#fbbf24',
+      [OrionState.Responding]: '#fdba74',
+      [OrionState.Error]: '#ef4444',
+    },
+    background: { from: '#431407', via: '#1c1410', to: '#000000' },
+    builtIn: true,
+  },
+  {
+    id: 'terminal',
+    name: 'Terminal',
+    palette: {
+      base: '#020a04',
+      surface: '#0b1f10',
+      highlight: '#22c55e',
+      accent: '#86efac',
+      success: '#4ade80',
+      warning: '#eab308',
+      danger: '#dc2626',
+    },
+    orb: {
+      [OrionState.Idle]: '#22c55e',
+      [OrionState.Listening]: '#86efac',
+      [OrionState.Thinking]: '#15803d',
+      [OrionState.Responding]: '#4ade80',
+      [OrionState.Error]: '#dc2626',
+    },
+    background: { from: '#052e16', via: '#020a04', to: '#000000' },
+    builtIn: true,
+  },
+];
+
 export const INITIAL_GREETING = "Orion systems online. Physiological and environmental sensors calibrated. How may I assist you today?";
@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+import { MotionValue, useMotionValue } from 'framer-motion';
+import { AudioLevelSource } from '../types';
+
+// Share of each new reading mixed into the smoothed level
+const SMOOTHING = 0.35;
+
+/**
+ * Smoothed loudness of `source`, sampled every animation frame while it is set.
+ * Returned as a MotionValue so the orb follows it without re-rendering React.
+ */
+export const useAudioLevel = (source: AudioLevelSource | null): MotionValue<number> => {
+  const level = useMotionValue(0);
+
+  useEffect(() => {
+    if (!source) return;
+    let frame = 0;
+    let cancelled = false;
+
+    const tick = () => {
+      level.set(level.get() + (source.getLevel() - level.get()) * SMOOTHING);
+      frame = requestAnimationFrame(tick);
+    };
+
+    source.start()
+      .then(() => {
+        if (!cancelled) tick();
+      })
+      .catch(error => console.error("Audio Level Failure:", error));
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      source.stop();
+      level.set(0);
+    };
+  }, [source, level]);
+
+  return level;
+};
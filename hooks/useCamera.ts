@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Attachment, FrameSource } from '../types';
+import { createWebcamFrameSource } from '../services/cameraSource';
+
+interface UseCameraOptions {
+  // Receives each frame captured in live mode
+  onLiveFrame: (frame: Attachment) => void;
+  // Injectable so capture can be driven by static images instead of a webcam
+  source?: FrameSource;
+}
+
+export const useCamera = ({ onLiveFrame, source }: UseCameraOptions) => {
+  const frames = useMemo(() => source ?? createWebcamFrameSource(), [source]);
+
+  const [isActive, setIsActive] = useState(false);
+  const [isLive, setIsLive] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+
+  const onLiveFrameRef = useRef(onLiveFrame);
+  onLiveFrameRef.current = onLiveFrame;
+  const liveTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopLive = useCallback(() => {
+    if (liveTimerRef.current) clearInterval(liveTimerRef.current);
+    liveTimerRef.current = null;
+    setIsLive(false);
+  }, []);
+
+  const open = useCallback(async () => {
+    if (!frames.isSupported) {
+      setCameraError("No camera is available on this device.");
+      return;
+    }
+    setCameraError(null);
+    try {
+      await frames.start();
+      setPreviewStream(frames.getPreviewStream());
+      setIsActive(true);
+    } catch (error) {
+      console.error("Camera Failure:", error);
+      setCameraError(error instanceof DOMException && error.name === 'NotAllowedError'
+        ? "Camera access was denied."
+        : "Camera could not be started.");
+    }
+  }, [frames]);
+
+  const close = useCallback(() => {
+    stopLive();
+    frames.stop();
+    setPreviewStream(null);
+    setIsActive(false);
+  }, [frames, stopLive]);
+
+  const snapshot = useCallback(async (): Promise<Attachment | null> => {
+    try {
+      return await frames.captureFrame();
+    } catch (error) {
+      setCameraError(error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }, [frames]);
+
+  const startLive = useCallback((intervalMs: number) => {
+    stopLive();
+    setIsLive(true);
+    liveTimerRef.current = setInterval(async () => {
+      const frame = await snapshot();
+      if (frame && liveTimerRef.current) onLiveFrameRef.current(frame);
+    }, intervalMs);
+  }, [snapshot, stopLive]);
+
+  // Release the camera when the component goes away
+  useEffect(() => () => {
+    if (liveTimerRef.current) clearInterval(liveTimerRef.current);
+    frames.stop();
+  }, [frames]);
+
+  return { isSupported: frames.isSupported, isActive, isLive, cameraError, previewStream, open, close, snapshot, startLive, stopLive };
+};
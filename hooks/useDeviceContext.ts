@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DeviceContext, SensorId, SensorRegistry } from '../types';
+import { deviceSensors, isSensorActive } from '../services/sensors';
+
+interface UseDeviceContextOptions {
+  // Per-sensor sharing switches; permission-gated sensors only run while shared
+  sharing: Record<SensorId, boolean>;
+  // Injectable so sensors can be replaced with simulated ones
+  registry?: SensorRegistry;
+}
+
+const CLOCK_INTERVAL_MS = 60000;
+
+export const useDeviceContext = ({ sharing, registry = deviceSensors }: UseDeviceContextOptions) => {
+  const [context, setContext] = useState<DeviceContext>(() => ({
+    batteryLevel: null,
+    isCharging: false,
+    isOnline: navigator.onLine,
+    platform: navigator.platform,
+    currentTime: new Date().toLocaleString(),
+  }));
+
+  const report = useCallback((patch: Partial<DeviceContext>) => {
+    setContext(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  // Context clock tick
+  useEffect(() => {
+    const interval = setInterval(() => report({ currentTime: new Date().toLocaleString() }), CLOCK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [report]);
+
+  // Start and stop sensors individually as their switches change, so toggling
+  // one does not reset the readings of the others
+  const runningRef = useRef(new Map<SensorId, () => void>());
+  useEffect(() => {
+    const running = runningRef.current;
+    registry.list().forEach(sensor => {
+      const stop = running.get(sensor.id);
+      const active = isSensorActive(sensor, sharing);
+      if (active && !stop) {
+        running.set(sensor.id, sensor.subscribe(report));
+      } else if (!active && stop) {
+        stop();
+        running.delete(sensor.id);
+        report(sensor.blank);
+      }
+    });
+  }, [registry, sharing, report]);
+
+  useEffect(() => {
+    const running = runningRef.current;
+    return () => {
+      running.forEach(stop => stop());
+      running.clear();
+    };
+  }, []);
+
+  return { context, report };
+};
@@ -0,0 +1,61 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ScheduledTask, SchedulerClock, TaskScheduler } from '../types';
+import { createTaskScheduler, loadTasks, saveTasks, systemClock } from '../services/scheduler';
+
+interface UseTaskSchedulerOptions {
+  // Called for every task occurrence that comes due
+  onFire: (task: ScheduledTask) => void;
+  // Tasks wait until this is true, so overdue ones don't fire before there is somewhere to post them
+  ready: boolean;
+  // Injectable so firing can be driven by a fake clock
+  clock?: SchedulerClock;
+}
+
+export const useTaskScheduler = ({ onFire, ready, clock = systemClock }: UseTaskSchedulerOptions) => {
+  const [tasks, setTasks] = useState<ScheduledTask[]>(loadTasks);
+  const [recent, setRecent] = useState<ScheduledTask[]>([]);
+
+  const onFireRef = useRef(onFire);
+  onFireRef.current = onFire;
+  const schedulerRef = useRef<TaskScheduler | null>(null);
+
+  useEffect(() => {
+    if (!ready) return;
+    const scheduler = createTaskScheduler({
+      tasks: loadTasks(),
+      clock,
+      onFire: (task) => {
+        setRecent(scheduler.recent());
+        onFireRef.current(task);
+      },
+      onChange: (next) => {
+        setTasks(next);
+        setRecent(scheduler.recent());
+        saveTasks(next);
+      }
+    });
+    schedulerRef.current = scheduler;
+    return () => {
+      scheduler.dispose();
+      schedulerRef.current = null;
+    };
+  }, [ready, clock]);
+
+  // Stable handle for tools and UI; calls go to whichever scheduler is running
+  const scheduler = useMemo<TaskScheduler>(() => {
+    const current = () => {
+      if (!schedulerRef.current) throw new Error("The scheduler is not running yet.");
+      return schedulerRef.current;
+    };
+    return {
+      list: () => schedulerRef.current?.list() ?? [],
+      recent: () => schedulerRef.current?.recent() ?? [],
+      schedule: (task) => current().schedule(task),
+      snooze: (id, delayMs) => current().snooze(id, delayMs),
+      cancel: (id) => current().cancel(id),
+      dispose: () => schedulerRef.current?.dispose(),
+    };
+  }, []);
+
+  return { tasks, recent, scheduler };
+};
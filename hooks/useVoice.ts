@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { SpeechToTextEngine, TextToSpeechEngine, VoiceMode } from '../types';
+import { createWebSpeechRecognizer, createWebSpeechSynthesizer, toSpeakableText } from '../services/speechEngine';
+
+interface UseVoiceOptions {
+  mode: VoiceMode;
+  // Pause capture while Orion is thinking or speaking so it doesn't hear itself
+  suspended: boolean;
+  onTranscript: (transcript: string, isFinal: boolean) => void;
+  // Engines are injectable so the Web Speech API can be swapped for a fake
+  recognizer?: SpeechToTextEngine;
+  synthesizer?: TextToSpeechEngine;
+}
+
+export const useVoice = ({ mode, suspended, onTranscript, recognizer, synthesizer }: UseVoiceOptions) => {
+  const stt = useMemo(() => recognizer ?? createWebSpeechRecognizer(), [recognizer]);
+  const tts = useMemo(() => synthesizer ?? createWebSpeechSynthesizer(), [synthesizer]);
+
+  const [isListening, setIsListening] = useState(false);
+  const [isHandsFreeActive, setIsHandsFreeActive] = useState(false);
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+
+  // Latest callback without restarting recognition on every render
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
+
+  const startCapture = useCallback(() => {
+    if (!stt.isSupported) {
+      setVoiceError("Speech recognition is not supported in this browser.");
+      return;
+    }
+    setVoiceError(null);
+    setIsListening(true);
+    stt.start({
+      onResult: (transcript, isFinal) => onTranscriptRef.current(transcript, isFinal),
+      onEnd: () => setIsListening(false),
+      onError: (message) => {
+        setVoiceError(message);
+        setIsListening(false);
+        setIsHandsFreeActive(false);
+      }
+    });
+  }, [stt]);
+
+  const stopCapture = useCallback(() => {
+    stt.stop();
+  }, [stt]);
+
+  const toggleHandsFree = useCallback(() => {
+    setIsHandsFreeActive(active => {
+      if (active) stt.stop();
+      return !active;
+    });
+  }, [stt]);
+
+  // Hands-free: keep a capture running whenever Orion is free to listen
+  useEffect(() => {
+    if (mode !== 'hands-free' || !isHandsFreeActive) return;
+    if (suspended && isListening) stopCapture();
+    if (!suspended && !isListening) startCapture();
+  }, [mode, isHandsFreeActive, suspended, isListening, startCapture, stopCapture]);
+
+  // Leaving hands-free mode ends the loop
+  useEffect(() => {
+    if (mode !== 'hands-free') setIsHandsFreeActive(false);
+  }, [mode]);
+
+  const speak = useCallback((text: string, onEnd: () => void) => {
+    const speakable = toSpeakableText(text);
+    if (!tts.isSupported || !speakable) {
+      onEnd();
+      return;
+    }
+    tts.speak(speakable, onEnd);
+  }, [tts]);
+
+  const cancelSpeech = useCallback(() => tts.cancel(), [tts]);
+
+  return {
+    isSupported: stt.isSupported,
+    isListening,
+    isHandsFreeActive,
+    voiceError,
+    startCapture,
+    stopCapture,
+    toggleHandsFree,
+    speak,
+    cancelSpeech,
+    outputLevel: tts.outputLevel ?? null
+  };
+};
@@ -13,3 +13,11 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Cache the app shell so Orion still opens, and queues messages, while offline
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .catch(error => console.error("Service Worker Registration Failure:", error));
+  });
+}
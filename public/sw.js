@@ -0,0 +1,92 @@
+// Orion service worker: keeps the app shell and its CDN dependencies available offline,
+// so the interface still opens and can queue messages without a connection.
+
+const CACHE_NAME = 'orion-shell-v2';
+const SHELL_URLS = ['/', '/index.html'];
+// Written by the production build (vite.config.ts); absent under the dev server
+const PRECACHE_MANIFEST_URL = '/precache-manifest.json';
+
+// Module, style and font CDNs the shell loads through the importmap and <link> tags
+const CDN_HOSTS = [
+  'esm.sh',
+  'cdn.tailwindcss.com',
+  'cdn.jsdelivr.net',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+];
+
+// The shell plus the build's scripts and styles, so the first visit already works offline
+const precacheUrls = async () => {
+  try {
+    const response = await fetch(PRECACHE_MANIFEST_URL, { cache: 'no-cache' });
+    // The dev server answers unknown paths with index.html, which doesn't parse
+    return response.ok ? [...SHELL_URLS, ...(await response.json())] : SHELL_URLS;
+  } catch {
+    return SHELL_URLS;
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([caches.open(CACHE_NAME), precacheUrls()])
+      .then(([cache, urls]) => cache.addAll(urls))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Opaque responses (no-cors CDN scripts) report status 0 but are still usable
+const isCacheable = (response) => response.ok || response.type === 'opaque';
+
+// Same-origin files: always try the network so new builds show up, fall back to the cache offline
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (isCacheable(response)) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    if (request.mode === 'navigate') {
+      const shell = await cache.match('/');
+      if (shell) return shell;
+    }
+    throw error;
+  }
+};
+
+// CDN URLs aren't pinned (the importmap uses ^ ranges, the Tailwind script is
+// unversioned): answer from the cache straight away and refresh it in the background
+const staleWhileRevalidate = async (event) => {
+  const { request } = event;
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then((response) => {
+    if (isCacheable(response)) cache.put(request, response.clone());
+    return response;
+  });
+  if (!cached) return refresh;
+  event.waitUntil(refresh.catch(() => {}));
+  return cached;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // Model calls are POSTs and must never be served from the cache
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
@@ -0,0 +1,31 @@
+import { createGeminiUpstream, createOrionProxy, OrionUpstream } from "./orionProxy";
+import { createRateLimiter } from "./rateLimiter";
+import { createStubUpstream } from "./stubUpstream";
+import { PROVIDER_OPTIONS } from "../constants";
+
+// Proxy configuration from the server-side environment, shared by the Vite
+// plugin and the standalone server:
+//   GEMINI_API_KEY        key used for upstream calls; never sent to the browser
+//   GEMINI_BASE_URL       alternative API origin, e.g. a local stub server
+//   ORION_UPSTREAM=stub   answer from the in-process stub instead of Gemini
+//   ORION_RATE_LIMIT      requests per client per minute (default 30)
+//   ORION_MODELS          comma-separated models clients may use (default: the Gemini models in settings)
+//   ORION_TRUST_PROXY=1   take the client address from X-Forwarded-For
+
+const resolveUpstream = (env: Record<string, string | undefined>): OrionUpstream | null => {
+  if (env.ORION_UPSTREAM === 'stub') return createStubUpstream();
+  if (!env.GEMINI_API_KEY) return null;
+  return createGeminiUpstream(env.GEMINI_API_KEY, env.GEMINI_BASE_URL || undefined);
+};
+
+export const createOrionProxyFromEnv = (env: Record<string, string | undefined>) => {
+  const limit = Number(env.ORION_RATE_LIMIT) > 0 ? Number(env.ORION_RATE_LIMIT) : 30;
+  return createOrionProxy({
+    upstream: resolveUpstream(env),
+    rateLimiter: createRateLimiter({ limit, windowMs: 60_000 }),
+    allowedModels: env.ORION_MODELS
+      ? env.ORION_MODELS.split(',').map(model => model.trim()).filter(Boolean)
+      : PROVIDER_OPTIONS.gemini.models,
+    trustProxy: env.ORION_TRUST_PROXY === '1'
+  });
+};
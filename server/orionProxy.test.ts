@@ -0,0 +1,100 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createOrionProxy, ORION_CHAT_PATH, OrionUpstream, ProxyLogEntry } from './orionProxy';
+import { createRateLimiter } from './rateLimiter';
+import { createStubUpstream } from './stubUpstream';
+
+const MODEL = 'gemini-2.5-flash';
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+  server = null;
+});
+
+// Serves the proxy on an ephemeral port and returns its chat URL
+const startProxy = async (options: { upstream?: OrionUpstream | null; limit?: number; log?: (entry: ProxyLogEntry) => void } = {}) => {
+  const handler = createOrionProxy({
+    upstream: options.upstream === undefined ? createStubUpstream(0) : options.upstream,
+    rateLimiter: createRateLimiter({ limit: options.limit ?? 10, windowMs: 60000 }),
+    allowedModels: [MODEL],
+    log: options.log ?? (() => {}),
+  });
+  server = createServer(handler);
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}${ORION_CHAT_PATH}`;
+};
+
+const post = (url: string, body: unknown) =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: typeof body === 'string' ? body : JSON.stringify(body) });
+
+const chatBody = (text: string, model = MODEL) => ({
+  model,
+  contents: [{ role: 'user', parts: [{ text }] }],
+  config: { temperature: 0.5 },
+});
+
+describe('createOrionProxy', () => {
+  it('streams the upstream reply as NDJSON', async () => {
+    const entries: ProxyLogEntry[] = [];
+    const url = await startProxy({ log: entry => entries.push(entry) });
+
+    const response = await post(url, chatBody('hello there'));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+
+    const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+    const text = lines.map(chunk => chunk.candidates[0].content.parts[0].text).join('');
+    expect(text).toBe(`Stub upstream (${MODEL}) received: hello there`);
+    expect(entries).toMatchObject([{ status: 200, model: MODEL, chunks: lines.length }]);
+  });
+
+  it('refuses methods other than POST', async () => {
+    const url = await startProxy();
+    const response = await fetch(url);
+    expect(response.status).toBe(405);
+    expect(response.headers.get('allow')).toBe('POST');
+  });
+
+  it('refuses models that are not enabled', async () => {
+    const url = await startProxy();
+    const response = await post(url, chatBody('hi', 'gemini-ultra'));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toBe('Model "gemini-ultra" is not enabled on this server.');
+  });
+
+  it('rejects malformed bodies', async () => {
+    const url = await startProxy();
+    expect((await post(url, '{not json')).status).toBe(400);
+    expect((await post(url, { model: MODEL })).status).toBe(400);
+    expect((await post(url, { ...chatBody('hi'), config: { temperature: 'hot' } })).status).toBe(400);
+  });
+
+  it('answers 401 when no upstream is configured', async () => {
+    const url = await startProxy({ upstream: null });
+    expect((await post(url, chatBody('hi'))).status).toBe(401);
+  });
+
+  it('rate limits each client', async () => {
+    const url = await startProxy({ limit: 2 });
+    await (await post(url, chatBody('one'))).text();
+    await (await post(url, chatBody('two'))).text();
+
+    const limited = await post(url, chatBody('three'));
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  it('reports upstream failures with their status', async () => {
+    const failing: OrionUpstream = {
+      generateContentStream: async () => { throw Object.assign(new Error('quota exceeded'), { status: 429 }); },
+    };
+    const url = await startProxy({ upstream: failing });
+
+    const response = await post(url, chatBody('hi'));
+    expect(response.status).toBe(429);
+    expect((await response.json()).error.message).toBe('quota exceeded');
+  });
+});
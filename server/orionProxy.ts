@@ -0,0 +1,230 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { Content, ContentUnion, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Tool } from "@google/genai";
+import { RateLimiter } from "./rateLimiter";
+
+// Server side of the Gemini provider. The browser posts the request it would
+// have sent to Gemini; the key stays here and each upstream chunk is streamed
+// back as one line of NDJSON. Failures after the stream has started arrive as
+// a final `{"error": {...}}` line.
+
+export const ORION_CHAT_PATH = '/api/orion/chat';
+
+// Attachments travel inline as base64, so requests can be large
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+/** Anything that can answer a Gemini streaming request: the real API or a local stub. */
+export interface OrionUpstream {
+  generateContentStream(params: GenerateContentParameters): Promise<AsyncIterable<GenerateContentResponse>>;
+}
+
+export interface ProxyLogEntry {
+  at: Date;
+  client: string;
+  status: number;
+  model?: string;
+  chunks: number;
+  durationMs: number;
+  error?: string;
+}
+
+interface OrionProxyOptions {
+  /** null when no API key is configured; requests are then refused with 401. */
+  upstream: OrionUpstream | null;
+  rateLimiter: RateLimiter;
+  /** Models the browser may ask for; anything else is refused so the key can't be spent on arbitrary models. */
+  allowedModels: readonly string[];
+  log?: (entry: ProxyLogEntry) => void;
+  /** Honour X-Forwarded-For when running behind a reverse proxy. */
+  trustProxy?: boolean;
+}
+
+export const createGeminiUpstream = (apiKey: string, baseUrl?: string): OrionUpstream =>
+  new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined }).models;
+
+export const formatLogEntry = (entry: ProxyLogEntry): string =>
+  [
+    `[orion-proxy] ${entry.at.toISOString()}`,
+    entry.client,
+    entry.status,
+    entry.model ?? '-',
+    `chunks=${entry.chunks}`,
+    `${entry.durationMs}ms`,
+    entry.error ? `error="${entry.error}"` : ''
+  ].filter(Boolean).join(' ');
+
+class ProxyRequestError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new ProxyRequestError(413, 'Request body is too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+// What the browser's Gemini provider posts; the shapes inside contents and tools are Gemini's own
+interface ChatRequestBody {
+  model: string;
+  contents: Content[];
+  config: {
+    systemInstruction?: ContentUnion;
+    temperature?: number;
+    tools?: Tool[];
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseRequest = (body: string): ChatRequestBody => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new ProxyRequestError(400, 'Request body is not valid JSON.');
+  }
+  if (!isRecord(parsed) || typeof parsed.model !== 'string' || !parsed.model) {
+    throw new ProxyRequestError(400, 'Request is missing a model.');
+  }
+  if (!Array.isArray(parsed.contents) || !parsed.contents.every(isRecord)) {
+    throw new ProxyRequestError(400, 'Request is missing contents.');
+  }
+  const config = isRecord(parsed.config) ? parsed.config : {};
+  const { systemInstruction, temperature, tools } = config;
+  if (systemInstruction !== undefined && typeof systemInstruction !== 'string' && !isRecord(systemInstruction)) {
+    throw new ProxyRequestError(400, 'systemInstruction must be text or a content object.');
+  }
+  if (temperature !== undefined && typeof temperature !== 'number') {
+    throw new ProxyRequestError(400, 'temperature must be a number.');
+  }
+  if (tools !== undefined && (!Array.isArray(tools) || !tools.every(isRecord))) {
+    throw new ProxyRequestError(400, 'tools must be a list of tool objects.');
+  }
+  return {
+    model: parsed.model,
+    contents: parsed.contents as Content[],
+    // Only the fields the client is allowed to set; anything else is dropped
+    config: {
+      systemInstruction: systemInstruction as ContentUnion | undefined,
+      temperature: temperature as number | undefined,
+      tools: tools as Tool[] | undefined
+    }
+  };
+};
+
+// The SDK throws ApiError with the upstream HTTP status
+const statusOf = (error: unknown): number => {
+  const status = isRecord(error) ? error.status : undefined;
+  return typeof status === 'number' && status >= 400 ? status : 502;
+};
+
+const clientOf = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const sendError = (res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ error: { status, message } }));
+};
+
+/** Node request handler for ORION_CHAT_PATH, usable as connect middleware or with node:http directly. */
+export const createOrionProxy = ({
+  upstream, rateLimiter, allowedModels, log = entry => console.log(formatLogEntry(entry)), trustProxy = false
+}: OrionProxyOptions) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    const startedAt = Date.now();
+    const client = clientOf(req, trustProxy);
+    let model: string | undefined;
+    let chunks = 0;
+
+    const finish = (status: number, error?: string) => log({
+      at: new Date(startedAt), client, status, model, chunks, durationMs: Date.now() - startedAt, error
+    });
+
+    if (req.method !== 'POST') {
+      sendError(res, 405, 'Use POST.', { Allow: 'POST' });
+      finish(405);
+      return;
+    }
+
+    const decision = rateLimiter.take(client);
+    if (!decision.allowed) {
+      sendError(res, 429, 'Too many requests. Slow down and retry shortly.', {
+        'Retry-After': String(Math.ceil(decision.retryAfterMs / 1000))
+      });
+      finish(429, 'rate limited');
+      return;
+    }
+
+    if (!upstream) {
+      sendError(res, 401, 'GEMINI_API_KEY is not set on the server.');
+      finish(401, 'missing key');
+      return;
+    }
+
+    let params: ChatRequestBody;
+    try {
+      params = parseRequest(await readBody(req));
+      model = params.model;
+      if (!allowedModels.includes(params.model)) {
+        throw new ProxyRequestError(400, `Model "${params.model}" is not enabled on this server.`);
+      }
+    } catch (error) {
+      const status = error instanceof ProxyRequestError ? error.status : 400;
+      const message = error instanceof Error ? error.message : String(error);
+      sendError(res, status, message);
+      finish(status, message);
+      return;
+    }
+
+    // Stop paying for tokens nobody will read once the browser goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const stream = await upstream.generateContentStream({
+        ...params,
+        config: { ...params.config, abortSignal: controller.signal }
+      });
+
+      res.writeHead(200, {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache',
+        'X-RateLimit-Remaining': String(decision.remaining)
+      });
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+        res.write(JSON.stringify(chunk) + '\n');
+        chunks++;
+      }
+      res.end();
+      finish(controller.signal.aborted ? 499 : 200, controller.signal.aborted ? 'client closed' : undefined);
+    } catch (error) {
+      const status = controller.signal.aborted ? 499 : statusOf(error);
+      const message = error instanceof Error ? error.message : String(error);
+      if (res.headersSent) {
+        res.end(JSON.stringify({ error: { status, message } }) + '\n');
+      } else if (!controller.signal.aborted) {
+        sendError(res, status, message);
+      }
+      finish(status, message);
+    }
+  };
@@ -0,0 +1,46 @@
+// Sliding-window limiter keyed by client: at most `limit` requests in any `windowMs`.
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  /** How long until the oldest request in the window expires; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take(key: string): RateLimitDecision;
+}
+
+interface RateLimiterOptions {
+  limit: number;
+  windowMs: number;
+  now?: () => number;
+}
+
+export const createRateLimiter = ({ limit, windowMs, now = Date.now }: RateLimiterOptions): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  return {
+    take(key) {
+      const at = now();
+      const recent = (hits.get(key) ?? []).filter(time => at - time < windowMs);
+
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return { allowed: false, remaining: 0, retryAfterMs: recent[0] + windowMs - at };
+      }
+
+      recent.push(at);
+      hits.set(key, recent);
+
+      // Forget clients that have gone quiet so the map doesn't grow without bound
+      if (hits.size > 1000) {
+        hits.forEach((times, client) => {
+          if (times.every(time => at - time >= windowMs)) hits.delete(client);
+        });
+      }
+
+      return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+    }
+  };
+};
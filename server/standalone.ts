@@ -0,0 +1,57 @@
+import { createServer } from "node:http";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { ORION_CHAT_PATH } from "./orionProxy";
+import { createOrionProxyFromEnv } from "./config";
+
+// Production server without Vite: serves the built app from ORION_STATIC_DIR
+// (default ./dist) and the chat proxy on the same origin.
+//   npm run build && npm run build:server && npm start
+// PORT sets the port (default 8080); the proxy reads the variables in ./config.
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.webmanifest': 'application/manifest+json',
+  '.woff2': 'font/woff2',
+};
+
+const staticDir = path.resolve(process.env.ORION_STATIC_DIR || 'dist');
+const port = Number(process.env.PORT) || 8080;
+const proxy = createOrionProxyFromEnv(process.env);
+
+// The requested file inside staticDir, or index.html for client-side routes
+const resolveStaticFile = async (urlPath: string): Promise<string> => {
+  const file = path.join(staticDir, path.normalize(decodeURIComponent(urlPath)));
+  if (!file.startsWith(staticDir + path.sep)) return path.join(staticDir, 'index.html');
+  const info = await stat(file).catch(() => null);
+  return info?.isFile() ? file : path.join(staticDir, 'index.html');
+};
+
+createServer(async (req, res) => {
+  const urlPath = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (urlPath === ORION_CHAT_PATH) {
+    await proxy(req, res);
+    return;
+  }
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+    return;
+  }
+  try {
+    const file = await resolveStaticFile(urlPath);
+    const body = await readFile(file);
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+    res.end(req.method === 'HEAD' ? undefined : body);
+  } catch (error) {
+    console.error("Static file failure:", error);
+    res.writeHead(404).end();
+  }
+}).listen(port, () => {
+  console.log(`[orion] serving ${staticDir} and ${ORION_CHAT_PATH} on http://localhost:${port}`);
+});
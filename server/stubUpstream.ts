@@ -0,0 +1,35 @@
+import { Content, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { OrionUpstream } from "./orionProxy";
+
+// Stand-in for the Gemini API (ORION_UPSTREAM=stub): echoes the latest user
+// text back in a few chunks without any network access or API key.
+
+const lastUserText = (params: GenerateContentParameters): string => {
+  // The proxy only forwards a list of Content objects
+  const contents = (Array.isArray(params.contents) ? params.contents : []) as Content[];
+  for (let i = contents.length - 1; i >= 0; i--) {
+    const turn = contents[i];
+    if (turn?.role !== 'user') continue;
+    const text = (turn.parts ?? []).map(part => part.text ?? '').join('').trim();
+    if (text) return text;
+  }
+  return '';
+};
+
+const toChunk = (text: string) =>
+  ({ candidates: [{ content: { role: 'model', parts: [{ text }] } }] }) as unknown as GenerateContentResponse;
+
+export const createStubUpstream = (delayMs = 40): OrionUpstream => ({
+  async generateContentStream(params) {
+    const reply = `Stub upstream (${params.model}) received: ${lastUserText(params) || '(no text)'}`;
+    const words = reply.split(/(?<= )/);
+
+    return (async function* () {
+      for (const word of words) {
+        if (params.config?.abortSignal?.aborted) return;
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        yield toChunk(word);
+      }
+    })();
+  }
+});
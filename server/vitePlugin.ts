@@ -0,0 +1,19 @@
+import type { Plugin } from "vite";
+import { ORION_CHAT_PATH } from "./orionProxy";
+import { createOrionProxyFromEnv } from "./config";
+
+// Mounts the chat proxy on both `vite` (dev) and `vite preview` (the built app).
+// See ./config for the environment variables it reads.
+export const orionProxyPlugin = (env: Record<string, string>): Plugin => {
+  const handler = createOrionProxyFromEnv(env);
+
+  return {
+    name: 'orion-proxy',
+    configureServer(server) {
+      server.middlewares.use(ORION_CHAT_PATH, handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(ORION_CHAT_PATH, handler);
+    }
+  };
+};
@@ -0,0 +1,117 @@
+import { Attachment } from "../types";
+
+// Types every provider path knows how to send. Documents go out as inline
+// parts (Gemini reads PDFs natively; text formats are also inlined as text
+// for providers without document support).
+export const TEXT_MIME_TYPES = ['text/plain', 'text/csv', 'text/markdown', 'application/json'];
+export const ACCEPTED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'application/pdf', ...TEXT_MIME_TYPES];
+export const ACCEPT_ATTRIBUTE = [...ACCEPTED_MIME_TYPES, '.csv', '.md', '.txt'].join(',');
+
+const MAX_IMAGE_DIMENSION = 1536;   // Longest side after downscaling, in px
+const MAX_IMAGE_BYTES = 1024 * 1024;
+const MAX_DOCUMENT_BYTES = 15 * 1024 * 1024; // Inline request payloads are capped at 20MB
+
+// Browsers report an empty type for some extensions (notably .md and .csv on Windows)
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  csv: 'text/csv', md: 'text/markdown', txt: 'text/plain', json: 'application/json', pdf: 'application/pdf',
+};
+
+export const isImageAttachment = (attachment: Attachment): boolean =>
+  attachment.mimeType.startsWith('image/');
+
+export const isTextAttachment = (attachment: Attachment): boolean =>
+  TEXT_MIME_TYPES.includes(attachment.mimeType);
+
+export const toDataUrl = (attachment: Attachment): string =>
+  `data:${attachment.mimeType};base64,${attachment.data}`;
+
+export const decodeTextAttachment = (attachment: Attachment): string =>
+  new TextDecoder().decode(Uint8Array.from(atob(attachment.data), c => c.charCodeAt(0)));
+
+/** Base64 of `text` as UTF-8, the inverse of decodeTextAttachment. */
+export const encodeTextAttachment = (text: string): string =>
+  btoa(Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join(''));
+
+export const formatBytes = (bytes: number): string =>
+  bytes < 1024 ? `${bytes} B`
+    : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const base64Size = (base64: string): number =>
+  Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Image could not be decoded."));
+    img.src = src;
+  });
+
+/**
+ * Downscale to MAX_IMAGE_DIMENSION and re-encode as JPEG, lowering quality
+ * until the result fits MAX_IMAGE_BYTES. Small images pass through untouched.
+ */
+const compressImage = async (file: File): Promise<{ mimeType: string; data: string }> => {
+  const original = await readAsDataUrl(file);
+  const img = await loadImage(original);
+
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(img.width, img.height));
+  if (scale === 1 && file.size <= MAX_IMAGE_BYTES) {
+    return { mimeType: file.type, data: original.split(',')[1] };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Image could not be processed.");
+  // JPEG has no alpha; paint transparent areas on the app background instead of black
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  let data = '';
+  for (const quality of [0.85, 0.7, 0.55, 0.4]) {
+    data = canvas.toDataURL('image/jpeg', quality).split(',')[1];
+    if (base64Size(data) <= MAX_IMAGE_BYTES) break;
+  }
+  return { mimeType: 'image/jpeg', data };
+};
+
+/** Validate, compress and encode a user-supplied file. Throws with a user-facing message. */
+export const processFile = async (file: File): Promise<Attachment> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const mimeType = file.type || EXTENSION_MIME_TYPES[extension] || '';
+
+  if (!ACCEPTED_MIME_TYPES.includes(mimeType)) {
+    throw new Error(`${file.name}: unsupported file type.`);
+  }
+
+  if (mimeType.startsWith('image/')) {
+    const { mimeType: encodedType, data } = await compressImage(file);
+    return { id: crypto.randomUUID(), mimeType: encodedType, name: file.name, size: base64Size(data), data };
+  }
+
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${file.name}: larger than ${formatBytes(MAX_DOCUMENT_BYTES)}.`);
+  }
+  const data = (await readAsDataUrl(file)).split(',')[1];
+  return { id: crypto.randomUUID(), mimeType, name: file.name, size: file.size, data };
+};
+
+/** Older sessions stored attachments as bare image data URLs. */
+export const normalizeAttachment = (attachment: Attachment | string, index: number): Attachment => {
+  if (typeof attachment !== 'string') return attachment;
+  const data = attachment.split(',')[1] ?? '';
+  const mimeType = attachment.split(';')[0].split(':')[1] || 'image/png';
+  return { id: `legacy-${index}`, mimeType, name: `image-${index + 1}`, size: base64Size(data), data };
+};
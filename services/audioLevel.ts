@@ -0,0 +1,61 @@
+import { AudioLevelSource } from "../types";
+
+// Speech RMS rarely exceeds ~0.3; scale it so normal talking spans most of 0-1
+const LEVEL_GAIN = 3;
+
+/** RMS loudness of an analyser's current time-domain window, 0-1. */
+export const readAnalyserLevel = (analyser: AnalyserNode, buffer: Uint8Array<ArrayBuffer>): number => {
+  analyser.getByteTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    const sample = (buffer[i] - 128) / 128;
+    sum += sample * sample;
+  }
+  return Math.min(1, Math.sqrt(sum / buffer.length) * LEVEL_GAIN);
+};
+
+/**
+ * Microphone loudness through an AnalyserNode. Speech recognition doesn't expose
+ * its audio, so this opens a second, analysis-only capture of the same device.
+ */
+export const createMicrophoneLevelSource = (): AudioLevelSource => {
+  let stream: MediaStream | null = null;
+  let context: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let buffer: Uint8Array<ArrayBuffer> | null = null;
+  // Bumped by stop() so a start() still awaiting permission releases what it gets
+  let generation = 0;
+
+  const release = () => {
+    stream?.getTracks().forEach(track => track.stop());
+    context?.close();
+    stream = null;
+    context = null;
+    analyser = null;
+  };
+
+  return {
+    async start() {
+      const started = ++generation;
+      const captured = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (started !== generation) {
+        captured.getTracks().forEach(track => track.stop());
+        return;
+      }
+      release();
+      stream = captured;
+      context = new AudioContext();
+      analyser = context.createAnalyser();
+      analyser.fftSize = 512;
+      buffer = new Uint8Array(analyser.fftSize);
+      context.createMediaStreamSource(stream).connect(analyser);
+    },
+
+    stop() {
+      generation++;
+      release();
+    },
+
+    getLevel: () => (analyser && buffer ? readAnalyserLevel(analyser, buffer) : 0),
+  };
+};
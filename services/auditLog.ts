@@ -0,0 +1,24 @@
+import { AuditEntry } from "../types";
+import { STORES, clearStore, deleteOne, getAll, putOne } from "./db";
+
+// Keep the log bounded; older decisions are pruned on read
+const MAX_AUDIT_ENTRIES = 500;
+
+export const recordAuditEntry = (entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<void> =>
+  putOne<AuditEntry>(STORES.auditLog, {
+    ...entry,
+    id: crypto.randomUUID(),
+    timestamp: new Date()
+  });
+
+/** Most recent decisions first. */
+export const listAuditEntries = async (): Promise<AuditEntry[]> => {
+  const entries = (await getAll<AuditEntry>(STORES.auditLog))
+    .map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+  await Promise.all(entries.slice(MAX_AUDIT_ENTRIES).map(entry => deleteOne(STORES.auditLog, entry.id)));
+  return entries.slice(0, MAX_AUDIT_ENTRIES);
+};
+
+export const clearAuditLog = (): Promise<void> => clearStore(STORES.auditLog);
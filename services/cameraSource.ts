@@ -0,0 +1,74 @@
+import { Attachment, FrameSource } from "../types";
+import { processFile } from "./attachments";
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(new File([blob], name, { type: 'image/jpeg' })) : reject(new Error("Frame could not be encoded.")),
+      'image/jpeg',
+      0.85
+    );
+  });
+
+const frameName = () => `camera-${new Date().toISOString().replace(/[:.]/g, '-')}.jpg`;
+
+/** Frames from the device webcam via getUserMedia. */
+export const createWebcamFrameSource = (constraints: MediaTrackConstraints = { facingMode: 'user' }): FrameSource => {
+  let stream: MediaStream | null = null;
+  let video: HTMLVideoElement | null = null;
+
+  return {
+    isSupported: typeof navigator.mediaDevices?.getUserMedia === 'function',
+
+    async start() {
+      if (stream) return;
+      stream = await navigator.mediaDevices.getUserMedia({ video: constraints, audio: false });
+      // Off-screen element the snapshots are drawn from, independent of the preview
+      video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = stream;
+      await video.play();
+    },
+
+    stop() {
+      stream?.getTracks().forEach(track => track.stop());
+      if (video) video.srcObject = null;
+      stream = null;
+      video = null;
+    },
+
+    async captureFrame(): Promise<Attachment> {
+      if (!video || !video.videoWidth) throw new Error("Camera is not running.");
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Frame could not be captured.");
+      ctx.drawImage(video, 0, 0);
+      // Same downscaling and size limits as picked images
+      return processFile(await canvasToFile(canvas, frameName()));
+    },
+
+    getPreviewStream: () => stream,
+  };
+};
+
+/** Cycles through fixed images, e.g. to exercise live mode without a camera. */
+export const createStaticFrameSource = (frames: Attachment[]): FrameSource => {
+  let running = false;
+  let next = 0;
+
+  return {
+    isSupported: frames.length > 0,
+    async start() { running = true; },
+    stop() { running = false; },
+    async captureFrame() {
+      if (!running) throw new Error("Camera is not running.");
+      const frame = frames[next % frames.length];
+      next++;
+      return { ...frame, id: crypto.randomUUID() };
+    },
+    getPreviewStream: () => null,
+  };
+};
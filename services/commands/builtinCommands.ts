@@ -0,0 +1,84 @@
+import { ConversationExportFormat, OrionSettings, SlashCommand } from "../../types";
+import { PROVIDER_OPTIONS } from "../../constants";
+import { findProfile, getActiveProfile, getAllProfiles } from "../profiles";
+
+const INTENSITIES: OrionSettings['visualIntensity'][] = ['minimal', 'balanced', 'immersive'];
+const EXPORT_FORMATS: ConversationExportFormat[] = ['markdown', 'html', 'json'];
+
+export const builtinCommands: SlashCommand[] = [
+  {
+    name: 'clear',
+    description: 'Clear the current conversation',
+    run: (_args, ctx) => ctx.clearConversation(),
+  },
+  {
+    name: 'new',
+    description: 'Start a new session',
+    run: (_args, ctx) => ctx.newSession(),
+  },
+  {
+    name: 'persona',
+    description: 'Switch personality profile',
+    usage: '<name>',
+    suggestArgs: (ctx) => getAllProfiles(ctx.settings).map(p => p.name),
+    run: (args, ctx) => {
+      const names = getAllProfiles(ctx.settings).map(p => p.name).join(', ');
+      if (!args) {
+        ctx.reply(`Active profile: **${getActiveProfile(ctx.settings).name}**. Available: ${names}.`);
+        return;
+      }
+      const profile = findProfile(ctx.settings, args);
+      if (!profile) throw new Error(`Unknown profile "${args}". Available: ${names}.`);
+      ctx.updateSettings({ personality: profile.id });
+      ctx.reply(`Personality set to **${profile.name}**.`);
+    },
+  },
+  {
+    name: 'intensity',
+    description: 'Set the visual intensity',
+    usage: '<minimal|balanced|immersive>',
+    suggestArgs: () => INTENSITIES,
+    run: (args, ctx) => {
+      const level = INTENSITIES.find(i => i === args.toLowerCase());
+      if (!level) throw new Error(`Expected one of: ${INTENSITIES.join(', ')}.`);
+      ctx.updateSettings({ visualIntensity: level });
+      ctx.reply(`Visual intensity set to **${level}**.`);
+    },
+  },
+  {
+    name: 'status',
+    description: 'Show device and system status (stays on this device)',
+    run: (_args, ctx) => {
+      const { settings, context } = ctx;
+      ctx.reply([
+        '**System status**',
+        '',
+        `- Provider: ${PROVIDER_OPTIONS[settings.provider].label} · \`${settings.model}\``,
+        `- Profile: ${getActiveProfile(settings).name}`,
+        `- Messages in this session: ${ctx.messages.filter(m => !m.local).length}`,
+        '',
+        '```json',
+        JSON.stringify(context, null, 2),
+        '```',
+      ].join('\n'));
+    },
+  },
+  {
+    name: 'export',
+    description: 'Download this conversation',
+    usage: '[markdown|html|json]',
+    suggestArgs: () => EXPORT_FORMATS,
+    run: (args, ctx) => {
+      const format = args ? EXPORT_FORMATS.find(f => f === args.toLowerCase()) : 'markdown';
+      if (!format) throw new Error(`Expected one of: ${EXPORT_FORMATS.join(', ')}.`);
+      ctx.exportConversation(format);
+    },
+  },
+  {
+    name: 'retry',
+    description: 'Ask again for the last reply',
+    run: (_args, ctx) => {
+      if (!ctx.retry()) throw new Error("Nothing to retry right now.");
+    },
+  },
+];
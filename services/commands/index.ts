@@ -0,0 +1,8 @@
+import { createCommandRegistry, executeCommand, getCommandSuggestions, parseCommandInput, unescapeCommandInput } from "./registry";
+import { builtinCommands } from "./builtinCommands";
+
+// Default registry behind the input box. Register additional commands here
+// (or call orionCommands.register elsewhere at startup).
+export const orionCommands = createCommandRegistry(builtinCommands);
+
+export { createCommandRegistry, executeCommand, getCommandSuggestions, parseCommandInput, unescapeCommandInput };
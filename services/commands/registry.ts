@@ -0,0 +1,86 @@
+import { CommandContext, CommandRegistry, CommandSuggestion, SlashCommand } from "../../types";
+
+export const createCommandRegistry = (commands: SlashCommand[] = []): CommandRegistry => {
+  const byName = new Map<string, SlashCommand>();
+
+  const registry: CommandRegistry = {
+    register(command: SlashCommand) {
+      // Lookups are case-insensitive, so names are stored in their lookup form
+      if (command.name !== command.name.toLowerCase()) {
+        throw new Error(`Command "/${command.name}" must be lowercase.`);
+      }
+      if (byName.has(command.name)) {
+        throw new Error(`Command "/${command.name}" is already registered.`);
+      }
+      byName.set(command.name, command);
+    },
+    get: (name: string) => byName.get(name.toLowerCase()),
+    list: () => Array.from(byName.values())
+  };
+
+  commands.forEach(registry.register);
+  return registry;
+};
+
+/**
+ * Split "/persona Friendly" into name and argument text. Returns null for
+ * ordinary messages, including ones escaped with a double slash ("//etc").
+ */
+export const parseCommandInput = (input: string): { name: string; args: string } | null => {
+  const match = input.trim().match(/^\/(?!\/)(\S*)\s*([\s\S]*)$/);
+  return match ? { name: match[1].toLowerCase(), args: match[2].trim() } : null;
+};
+
+/** Popup entries for `input`: command names while typing the name, then argument completions. */
+export const getCommandSuggestions = (
+  registry: CommandRegistry,
+  input: string,
+  context: CommandContext
+): CommandSuggestion[] => {
+  const parsed = parseCommandInput(input);
+  if (!parsed) return [];
+
+  // Still typing the name
+  if (!/\s/.test(input.trimStart())) {
+    return registry.list()
+      .filter(command => command.name.startsWith(parsed.name))
+      .map(command => ({
+        label: `/${command.name}`,
+        completion: `/${command.name}${command.usage ? ' ' : ''}`,
+        hint: command.usage,
+        description: command.description
+      }));
+  }
+
+  const command = registry.get(parsed.name);
+  if (!command?.suggestArgs) return [];
+  const needle = parsed.args.toLowerCase();
+  return command.suggestArgs(context)
+    .filter(option => option.toLowerCase().startsWith(needle) && option.toLowerCase() !== needle)
+    .map(option => ({ label: option, completion: `/${command.name} ${option}`, description: command.description }));
+};
+
+/**
+ * Run `input` as a slash command. Returns false when it isn't one, so the caller
+ * sends it to the model instead (a leading "//" sends the text with one slash).
+ */
+export const executeCommand = (registry: CommandRegistry, input: string, context: CommandContext): boolean => {
+  const parsed = parseCommandInput(input);
+  if (!parsed) return false;
+
+  const command = registry.get(parsed.name);
+  if (!command) {
+    context.reply(`Unknown command \`/${parsed.name}\`. Available: ${registry.list().map(c => `\`/${c.name}\``).join(', ')}. Start with \`//\` to send a message beginning with a slash.`);
+    return true;
+  }
+  try {
+    command.run(parsed.args, context);
+  } catch (error) {
+    context.reply(`\`/${command.name}\`: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return true;
+};
+
+/** Text to send for a message that was escaped with a leading "//". */
+export const unescapeCommandInput = (input: string): string =>
+  input.trimStart().startsWith('//') ? input.trimStart().slice(1) : input;
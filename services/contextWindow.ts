@@ -0,0 +1,46 @@
+import { Attachment, Message } from "../types";
+import { isImageAttachment } from "./attachments";
+
+// Rough heuristics: ~4 characters per token for text, a flat cost per image
+// (Gemini bills 258 tokens for an image up to 384px per side), about one
+// page's worth of tokens per 3KB of PDF, plus a small per-turn overhead for
+// role markers.
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 258;
+const PDF_BYTES_PER_TOKEN = 12;
+const TOKENS_PER_TURN = 4;
+
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateAttachmentTokens = (attachment: Attachment): number => {
+  if (isImageAttachment(attachment)) return TOKENS_PER_IMAGE;
+  if (attachment.mimeType === 'application/pdf') return Math.ceil(attachment.size / PDF_BYTES_PER_TOKEN);
+  return Math.ceil(attachment.size / CHARS_PER_TOKEN);
+};
+
+export const estimateMessageTokens = (msg: Message): number =>
+  TOKENS_PER_TURN +
+  estimateTokens(msg.text) +
+  (msg.attachments ?? []).reduce((sum, attachment) => sum + estimateAttachmentTokens(attachment), 0);
+
+/**
+ * Split history into the newest turns that fit in `budget` tokens and the
+ * older prefix that does not. The newest turn is always kept.
+ */
+export const fitToTokenBudget = (
+  history: Message[],
+  budget: number
+): { included: Message[]; overflow: Message[] } => {
+  let used = 0;
+  let cut = history.length;
+
+  while (cut > 0) {
+    const cost = estimateMessageTokens(history[cut - 1]);
+    if (used + cost > budget && cut < history.length) break;
+    used += cost;
+    cut--;
+  }
+
+  return { included: history.slice(cut), overflow: history.slice(0, cut) };
+};
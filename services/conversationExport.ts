@@ -0,0 +1,356 @@
+import {
+  Attachment, ConversationExportFormat, ConversationSession, Message, MessageError, OrionErrorKind, OrionSettings, OrionTheme, Sender, ToolCall
+} from "../types";
+import { getActiveProfile } from "./profiles";
+import { ACCEPTED_MIME_TYPES, base64Size, formatBytes, isImageAttachment, normalizeAttachment, toDataUrl } from "./attachments";
+import { downloadFile, toFileSlug } from "./download";
+import { isRecord } from "./guards";
+import { escapeHtml, markdownToHtml } from "./markdownHtml";
+import { getActiveTheme } from "./themes";
+
+const CONVERSATION_FILE_FORMAT = 'orion-conversation';
+const CONVERSATION_FILE_VERSION = 1;
+
+const formatTimestamp = (date: Date): string =>
+  date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const describeSettings = (settings: OrionSettings): string => {
+  const profile = getActiveProfile(settings);
+  return `${profile.name} personality (T=${profile.temperature}) • ${settings.provider} / ${profile.model || settings.model}`;
+};
+
+// --- Markdown ---
+
+// Brackets in a file name would end the link text early
+const escapeLinkText = (text: string): string => text.replace(/[[\]\\]/g, '\\$&');
+
+const attachmentToMarkdown = (attachment: Attachment): string =>
+  isImageAttachment(attachment)
+    ? `![${escapeLinkText(attachment.name)}](${toDataUrl(attachment)})`
+    : `[📎 ${escapeLinkText(attachment.name)} (${formatBytes(attachment.size)})](${toDataUrl(attachment)})`;
+
+const messageToMarkdown = (msg: Message): string => {
+  const author = msg.sender === Sender.User ? 'User' : 'Orion';
+  const lines = [`### ${author} · ${formatTimestamp(msg.timestamp)}`, ''];
+  if (msg.error) {
+    lines.push(`> ⚠ ${msg.error.kind.toUpperCase()}: ${msg.error.message}`);
+    return lines.join('\n');
+  }
+  msg.toolCalls?.forEach(call => lines.push(`> ⚙ \`${call.name}\` — ${call.status}`));
+  if (msg.toolCalls?.length) lines.push('');
+  if (msg.text) lines.push(msg.text, '');
+  msg.attachments?.forEach(attachment => lines.push(attachmentToMarkdown(attachment), ''));
+  return lines.join('\n').trimEnd();
+};
+
+export const toMarkdown = (session: ConversationSession, settings: OrionSettings): string => [
+  `# ${session.title}`,
+  '',
+  `- Exported: ${formatTimestamp(new Date())}`,
+  `- Started: ${formatTimestamp(session.createdAt)}`,
+  `- Configuration: ${describeSettings(settings)}`,
+  '',
+  '---',
+  '',
+  session.messages.map(messageToMarkdown).join('\n\n---\n\n'),
+  ''
+].join('\n');
+
+// --- HTML ---
+
+const attachmentToHtml = (attachment: Attachment): string =>
+  isImageAttachment(attachment)
+    ? `<img class="attachment-image" src="${escapeHtml(toDataUrl(attachment))}" alt="${escapeHtml(attachment.name)}">`
+    : `<a class="attachment-file" download="${escapeHtml(attachment.name)}" href="${escapeHtml(toDataUrl(attachment))}">📎 ${escapeHtml(attachment.name)} · ${formatBytes(attachment.size)}</a>`;
+
+const messageToHtml = (msg: Message): string => {
+  if (msg.error) {
+    return `<div class="failure">⚠ ${escapeHtml(msg.error.kind.toUpperCase())}: ${escapeHtml(msg.error.message)}</div>`;
+  }
+  const isOrion = msg.sender === Sender.Orion;
+  const body = isOrion
+    ? `<div class="markdown">${markdownToHtml(msg.text)}</div>`
+    : `<p class="plain">${escapeHtml(msg.text)}</p>`;
+  const operations = msg.toolCalls?.map(call =>
+    `<div class="operation">⚙ ${escapeHtml(call.name)} <span>${escapeHtml(call.status.toUpperCase())}</span></div>`
+  ).join('') ?? '';
+  const attachments = msg.attachments?.length
+    ? `<div class="attachments">${msg.attachments.map(attachmentToHtml).join('')}</div>`
+    : '';
+  return `<div class="row ${isOrion ? 'orion' : 'user'}"><div class="bubble">${attachments}${operations}${msg.text ? body : ''}<div class="time">${escapeHtml(formatTimestamp(msg.timestamp))}</div></div></div>`;
+};
+
+// Inline styles so the page renders the same offline and without the app,
+// in the colors of the theme that was active when exporting
+const htmlStyles = ({ palette, background }: OrionTheme): string => `
+  :root {
+    --base: ${palette.base}; --surface: ${palette.surface}; --highlight: ${palette.highlight};
+    --accent: ${palette.accent}; --warning: ${palette.warning}; --danger: ${palette.danger};
+    --border: color-mix(in srgb, var(--surface) 70%, #ffffff 12%);
+    --mono: 'JetBrains Mono', ui-monospace, SFMono-Regular, Menlo, monospace;
+  }
+  * { box-sizing: border-box; }
+  body { margin: 0; min-height: 100vh; background: radial-gradient(circle at top, ${background.from}, ${background.via} 60%, ${background.to}); color: #e2e8f0; font: 15px/1.6 Inter, system-ui, sans-serif; }
+  main { max-width: 56rem; margin: 0 auto; padding: 2rem 1rem 4rem; }
+  header { border-bottom: 1px solid var(--border); margin-bottom: 2rem; padding-bottom: 1rem; }
+  h1 { font: 700 1.25rem/1.3 var(--mono); letter-spacing: 0.2em; color: #fff; margin: 0 0 0.25rem; }
+  .meta { font: 11px var(--mono); color: var(--highlight); opacity: 0.7; letter-spacing: 0.1em; }
+  .row { display: flex; margin-bottom: 1.5rem; }
+  .row.user { justify-content: flex-end; }
+  .bubble { max-width: 80%; border-radius: 1rem; padding: 1rem; box-shadow: 0 10px 15px rgba(0,0,0,0.3); overflow-wrap: anywhere; }
+  .orion .bubble { background: color-mix(in srgb, var(--surface) 60%, transparent); border: 1px solid var(--border); }
+  .user .bubble { background: color-mix(in srgb, var(--highlight) 90%, transparent); color: var(--base); }
+  .plain { white-space: pre-wrap; margin: 0; }
+  .time { font: 10px var(--mono); opacity: 0.5; margin-top: 0.5rem; }
+  .user .time { text-align: right; }
+  .failure { border: 1px solid color-mix(in srgb, var(--danger) 40%, transparent); background: color-mix(in srgb, var(--danger) 10%, transparent); color: var(--danger); border-radius: 0.75rem; padding: 0.75rem 1rem; margin-bottom: 1.5rem; font: 12px var(--mono); }
+  .operation { display: flex; justify-content: space-between; gap: 1rem; font: 11px var(--mono); color: var(--accent); border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.25rem 0.5rem; margin-bottom: 0.5rem; }
+  .operation span { color: #64748b; }
+  .attachments { display: flex; flex-wrap: wrap; gap: 0.5rem; margin-bottom: 0.5rem; }
+  .attachment-image { max-height: 12rem; border-radius: 0.5rem; border: 1px solid rgba(255,255,255,0.2); }
+  .attachment-file { font: 12px var(--mono); color: inherit; border: 1px solid rgba(255,255,255,0.2); border-radius: 0.5rem; padding: 0.5rem 0.75rem; }
+  .markdown > :first-child { margin-top: 0; }
+  .markdown > :last-child { margin-bottom: 0; }
+  .markdown p, .markdown ul, .markdown ol, .markdown blockquote, .markdown table, .markdown pre { margin: 0 0 0.75rem; }
+  .markdown h1, .markdown h2, .markdown h3, .markdown h4, .markdown h5, .markdown h6 { font: 600 1rem/1.4 var(--mono); letter-spacing: 0.05em; color: #fff; margin: 1rem 0 0.5rem; }
+  .markdown ul, .markdown ol { padding-left: 1.5rem; }
+  .markdown li.task { list-style: none; margin-left: -1.25rem; }
+  .markdown blockquote { border-left: 2px solid var(--accent); padding-left: 0.75rem; color: #94a3b8; }
+  .markdown hr { border: 0; border-top: 1px solid var(--border); margin: 1rem 0; }
+  .markdown img { max-width: 100%; border-radius: 0.5rem; }
+  a { color: var(--highlight); }
+  pre { background: color-mix(in srgb, var(--base) 80%, #000); border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.75rem; overflow-x: auto; font: 12px/1.5 var(--mono); }
+  code { font-family: var(--mono); font-size: 0.9em; color: var(--highlight); background: color-mix(in srgb, var(--base) 80%, transparent); border-radius: 0.25rem; padding: 0.1em 0.3em; }
+  pre code { color: #e2e8f0; background: none; padding: 0; }
+  .math { font-family: var(--mono); color: var(--accent); }
+  pre.math { text-align: center; }
+  table { border-collapse: collapse; font-size: 12px; }
+  th, td { border: 1px solid var(--border); padding: 0.25rem 0.5rem; text-align: left; }
+  th { background: color-mix(in srgb, var(--surface) 60%, transparent); font-family: var(--mono); }
+`;
+
+export const toHtml = (session: ConversationSession, settings: OrionSettings): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(session.title)} · ORION</title>
+<style>${htmlStyles(getActiveTheme(settings))}</style>
+</head>
+<body>
+<main>
+<header>
+<h1>ORION</h1>
+<div class="meta">${escapeHtml(session.title.toUpperCase())} • ${escapeHtml(formatTimestamp(session.createdAt))}</div>
+<div class="meta">${escapeHtml(describeSettings(settings).toUpperCase())}</div>
+</header>
+${session.messages.map(messageToHtml).join('\n')}
+</main>
+</body>
+</html>
+`;
+
+// --- JSON ---
+
+// The settings that shaped the replies. The file is meant for sharing, so
+// credentials, endpoints and private redaction patterns stay out of it
+type SharedSettings = Pick<OrionSettings, 'personality' | 'provider' | 'model' | 'contextTokenBudget' | 'theme'>;
+
+const sharedSettings = (settings: OrionSettings): SharedSettings => ({
+  personality: settings.personality,
+  provider: settings.provider,
+  model: settings.model,
+  contextTokenBudget: settings.contextTokenBudget,
+  theme: settings.theme,
+});
+
+/** Lossless export: the whole session tree plus the profile and non-secret settings it was held with. */
+export const toJson = (session: ConversationSession, settings: OrionSettings): string =>
+  JSON.stringify({
+    format: CONVERSATION_FILE_FORMAT,
+    version: CONVERSATION_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: sharedSettings(settings),
+    profile: getActiveProfile(settings),
+    session
+  }, null, 2);
+
+const EXPORTERS: Record<ConversationExportFormat, { extension: string; mimeType: string; render: typeof toJson }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown', render: toMarkdown },
+  html: { extension: 'html', mimeType: 'text/html', render: toHtml },
+  json: { extension: 'json', mimeType: 'application/json', render: toJson },
+};
+
+export const downloadConversation = (session: ConversationSession, settings: OrionSettings, format: ConversationExportFormat): void => {
+  const { extension, mimeType, render } = EXPORTERS[format];
+  downloadFile(`orion-${toFileSlug(session.title)}.${extension}`, render(session, settings), mimeType);
+};
+
+// --- Import ---
+
+const SENDERS = Object.values(Sender) as string[];
+const ERROR_KINDS: OrionErrorKind[] = ['missing-key', 'rate-limit', 'offline', 'safety', 'timeout', 'empty-response', 'provider'];
+const TOOL_STATUSES: ToolCall['status'][] = ['awaiting-approval', 'running', 'success', 'error', 'denied'];
+
+const optionalList = (value: unknown, error: string): unknown[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) throw new Error(error);
+  return value;
+};
+
+const parseDate = (value: unknown, label: string): Date => {
+  const date = new Date(value as string);
+  if ((typeof value !== 'string' && typeof value !== 'number') || Number.isNaN(date.getTime())) {
+    throw new Error(`${label} has an invalid timestamp.`);
+  }
+  return date;
+};
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// Attachments end up in data URLs, so only types the app accepts and real base64 get through
+const checkAttachment = (attachment: Attachment, label: string): Attachment => {
+  if (!ACCEPTED_MIME_TYPES.includes(attachment.mimeType)) {
+    throw new Error(`${label} has an attachment of unsupported type "${attachment.mimeType}".`);
+  }
+  if (attachment.data.length % 4 !== 0 || !BASE64.test(attachment.data)) {
+    throw new Error(`${label} has an attachment whose data is not base64.`);
+  }
+  return attachment;
+};
+
+const parseAttachment = (raw: unknown, index: number, label: string): Attachment => {
+  // Files from before attachments had metadata hold bare data URLs
+  if (typeof raw === 'string') return checkAttachment(normalizeAttachment(raw, index), label);
+  if (
+    !isRecord(raw) || typeof raw.data !== 'string' || !raw.data ||
+    typeof raw.mimeType !== 'string' || typeof raw.name !== 'string'
+  ) {
+    throw new Error(`${label} has an attachment without data.`);
+  }
+  return checkAttachment({
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `imported-${index}`,
+    mimeType: raw.mimeType,
+    name: raw.name,
+    size: typeof raw.size === 'number' ? raw.size : base64Size(raw.data),
+    data: raw.data
+  }, label);
+};
+
+const parseToolCall = (raw: unknown, label: string): ToolCall => {
+  if (
+    !isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !isRecord(raw.args) ||
+    !TOOL_STATUSES.includes(raw.status as ToolCall['status'])
+  ) {
+    throw new Error(`${label} has malformed operations.`);
+  }
+  return {
+    id: raw.id,
+    name: raw.name,
+    args: raw.args,
+    status: raw.status as ToolCall['status'],
+    ...(raw.result !== undefined && { result: raw.result }),
+    ...(typeof raw.error === 'string' && { error: raw.error })
+  };
+};
+
+const parseError = (raw: unknown, label: string): MessageError => {
+  if (
+    !isRecord(raw) || !ERROR_KINDS.includes(raw.kind as OrionErrorKind) ||
+    typeof raw.message !== 'string' || typeof raw.retryable !== 'boolean'
+  ) {
+    throw new Error(`${label} has a malformed failure notice.`);
+  }
+  return { kind: raw.kind as OrionErrorKind, message: raw.message, retryable: raw.retryable };
+};
+
+// Only known fields are copied; anything else in the file is ignored
+const parseMessage = (raw: unknown, label: string): Message => {
+  if (!isRecord(raw)) throw new Error(`${label} is not an object.`);
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error(`${label} has no id.`);
+  if (typeof raw.text !== 'string') throw new Error(`${label} has no text.`);
+  if (typeof raw.sender !== 'string' || !SENDERS.includes(raw.sender)) {
+    throw new Error(`${label} has an unknown sender "${String(raw.sender)}".`);
+  }
+  const attachments = optionalList(raw.attachments, `${label} has malformed attachments.`);
+  const toolCalls = optionalList(raw.toolCalls, `${label} has malformed operations.`);
+  const { parentId } = raw;
+  if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+    throw new Error(`${label} has a malformed parent.`);
+  }
+
+  const sender = raw.sender as Sender;
+  return {
+    id: raw.id,
+    text: raw.text,
+    sender,
+    timestamp: parseDate(raw.timestamp, label),
+    ...(attachments && { attachments: attachments.map((attachment, index) => parseAttachment(attachment, index, label)) }),
+    ...(toolCalls && { toolCalls: toolCalls.map(call => parseToolCall(call, label)) }),
+    ...(raw.error !== undefined && { error: parseError(raw.error, label) }),
+    ...(parentId !== undefined && { parentId: parentId as string | null }),
+    // Only Orion posts local messages; nothing can still be waiting to send in an archived conversation
+    ...(raw.local === true && sender === Sender.Orion && { local: true })
+  };
+};
+
+// Every parent must be in the file, and following parents must reach a root
+const checkTree = (nodes: Message[]) => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  nodes.forEach(node => {
+    const seen = new Set<string>();
+    for (let current: Message | undefined = node; current?.parentId; current = byId.get(current.parentId)) {
+      if (!byId.has(current.parentId)) throw new Error(`Message "${current.id}" follows a message that is not in the file.`);
+      if (seen.has(current.id)) throw new Error(`Message "${node.id}" is part of a cycle.`);
+      seen.add(current.id);
+    }
+  });
+};
+
+/**
+ * Parse a JSON conversation export into a new session. Throws with a
+ * user-facing message when the file isn't valid.
+ */
+export const parseConversationFile = (text: string): ConversationSession => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+
+  if (!isRecord(payload) || payload.format !== CONVERSATION_FILE_FORMAT || !isRecord(payload.session)) {
+    throw new Error("File is not an Orion conversation export.");
+  }
+  if (typeof payload.version !== 'number' || payload.version > CONVERSATION_FILE_VERSION) {
+    throw new Error(`Unsupported conversation file version: ${String(payload.version)}.`);
+  }
+
+  const { session } = payload;
+  const rawMessages = session.messages;
+  if (!Array.isArray(rawMessages)) throw new Error("Conversation has no message list.");
+  const rawBranches = optionalList(session.branches, "Conversation has a malformed branch list.");
+
+  const messages = rawMessages.map((raw, index) => parseMessage(raw, `Message #${index + 1}`));
+  const branches = rawBranches?.map((raw, index) => parseMessage(raw, `Branch message #${index + 1}`));
+
+  const ids = new Set<string>();
+  [...messages, ...(branches ?? [])].forEach(msg => {
+    if (ids.has(msg.id)) throw new Error(`Message id "${msg.id}" appears more than once.`);
+    ids.add(msg.id);
+  });
+  checkTree([...messages, ...(branches ?? [])]);
+
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    title: typeof session.title === 'string' && session.title.trim() ? session.title.trim() : 'Imported Session',
+    createdAt: session.createdAt !== undefined ? parseDate(session.createdAt, 'Conversation') : now,
+    updatedAt: now,
+    messages,
+    branches,
+    summary: isRecord(session.summary) && typeof session.summary.text === 'string' && typeof session.summary.coveredUntilId === 'string'
+      ? { text: session.summary.text, coveredUntilId: session.summary.coveredUntilId }
+      : undefined
+  };
+};
@@ -0,0 +1,80 @@
+// Thin promise wrapper around the single IndexedDB database used by Orion.
+// Every persistent subsystem gets its own object store here; bump DB_VERSION
+// and extend the upgrade handler when adding one.
+
+const DB_NAME = 'orion';
+const DB_VERSION = 4;
+
+export const STORES = {
+  sessions: 'sessions',
+  auditLog: 'auditLog',
+  memories: 'memories',
+  telemetry: 'telemetry',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openOrionDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.sessions)) {
+          const store = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(STORES.auditLog)) {
+          db.createObjectStore(STORES.auditLog, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.memories)) {
+          db.createObjectStore(STORES.memories, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.telemetry)) {
+          db.createObjectStore(STORES.telemetry, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openOrionDB();
+  return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+};
+
+export const getOne = async <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openOrionDB();
+  return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).get(key) as IDBRequest<T | undefined>);
+};
+
+export const putOne = async <T>(storeName: StoreName, value: T): Promise<void> => {
+  const db = await openOrionDB();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+};
+
+export const deleteOne = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openOrionDB();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+};
+
+export const clearStore = async (storeName: StoreName): Promise<void> => {
+  const db = await openOrionDB();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).clear());
+};
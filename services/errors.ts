@@ -0,0 +1,89 @@
+import { MessageError, OrionErrorKind } from "../types";
+
+/**
+ * Base class for every failure surfaced to the UI. `retryable` marks
+ * transient failures that the request layer retries with backoff and that
+ * the inline error card offers to retry.
+ */
+export class OrionError extends Error {
+  constructor(
+    public readonly kind: OrionErrorKind,
+    message: string,
+    public readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'OrionError';
+  }
+
+  toMessageError(): MessageError {
+    return { kind: this.kind, message: this.message, retryable: this.retryable };
+  }
+}
+
+export class MissingApiKeyError extends OrionError {
+  constructor(message = "API Key is missing.") {
+    super('missing-key', message, false);
+  }
+}
+
+export class RateLimitError extends OrionError {
+  constructor(message = "Quota or rate limit exceeded.") {
+    super('rate-limit', message, true);
+  }
+}
+
+export class NetworkOfflineError extends OrionError {
+  constructor(message = "The device is offline.") {
+    super('offline', message, true);
+  }
+}
+
+export class SafetyBlockError extends OrionError {
+  constructor(message = "The response was blocked by the provider's safety filters.") {
+    super('safety', message, false);
+  }
+}
+
+export class TimeoutError extends OrionError {
+  constructor(message = "The provider did not respond in time.") {
+    super('timeout', message, true);
+  }
+}
+
+export class EmptyResponseError extends OrionError {
+  constructor(message = "Systems unresponsive: the provider returned an empty reply.") {
+    super('empty-response', message, true);
+  }
+}
+
+export class ProviderError extends OrionError {
+  constructor(message: string, retryable: boolean) {
+    super('provider', message, retryable);
+  }
+}
+
+/** Map anything thrown by a provider or the network onto an OrionError. */
+export const classifyError = (error: unknown): OrionError => {
+  if (error instanceof OrionError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number'
+    ? error.status
+    : undefined;
+
+  if (status === 429 || /quota|rate.?limit|resource.?exhausted/i.test(message)) {
+    return new RateLimitError(message);
+  }
+  if (status === 401 || status === 403 || /api.?key/i.test(message)) {
+    return new MissingApiKeyError(message);
+  }
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return typeof navigator !== 'undefined' && !navigator.onLine
+      ? new NetworkOfflineError()
+      : new ProviderError(`Network request failed: ${message}`, true);
+  }
+  if (status !== undefined && status >= 500) {
+    return new ProviderError(message, true);
+  }
+  return new ProviderError(message, false);
+};
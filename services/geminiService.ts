@@ -1,12 +1,199 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { Message, DeviceContext, OrionSettings, Sender } from "../types";
-
-const getSystemInstruction = (context: DeviceContext, settings: OrionSettings): string => {
-  const personalityTraits = {
-    professional: "efficient, precise, and polite. Use technical terminology when appropriate but prioritize clarity.",
-    friendly: "warm, approachable, and conversational. Use emojis sparingly and sound like a helpful companion.",
-    direct: "concise to the point of brevity. Eliminate pleasantries and focus entirely on the data or action."
+import {
+  Message, Attachment, DeviceContext, OrionSettings, OrionRequest, ConversationSummary, Sender,
+  OrionStreamEvent, ToolCall, ToolCallRequest, ToolEnvironment, ToolRegistry, OrionProvider, ProviderChunk, MemoryFact,
+  CallOutcome, OrionErrorKind, TelemetryRecord, TokenUsage, SharedContext
+} from "../types";
+import { getProvider } from "./providers";
+import { estimateAttachmentTokens, estimateMessageTokens, estimateTokens, fitToTokenBudget } from "./contextWindow";
+import { executeToolCall } from "./tools";
+import { recordAuditEntry } from "./auditLog";
+import { getActiveProfile } from "./profiles";
+import { toSharedContext } from "./sensors";
+import { redactRequest } from "./privacy";
+import { EmptyResponseError, TimeoutError, classifyError } from "./errors";
+import { recordTelemetry } from "./telemetry";
+
+// Upper bound on model → tool → model round trips for a single reply
+const MAX_TOOL_STEPS = 5;
+
+// Transient failures are retried with exponential backoff (1s, 2s, ...) plus jitter,
+// but only while nothing from that provider call has been streamed to the user yet.
+export const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const FIRST_CHUNK_TIMEOUT_MS = 45000;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+/**
+ * One provider call with timeout and retry. Yields provider chunks, plus a
+ * `retry` event before each new attempt. Throws a classified OrionError once
+ * attempts are exhausted or the failure isn't retryable.
+ */
+async function* streamWithRetry(
+  provider: OrionProvider,
+  request: OrionRequest,
+  signal?: AbortSignal
+): AsyncGenerator<ProviderChunk | Extract<OrionStreamEvent, { type: 'retry' }>> {
+  for (let attempt = 1; ; attempt++) {
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), FIRST_CHUNK_TIMEOUT_MS);
+    let receivedChunk = false;
+
+    try {
+      for await (const chunk of provider.stream({
+        ...request,
+        signal: signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal
+      })) {
+        // Usage-only chunks don't count as a response
+        if (!receivedChunk && (chunk.text || chunk.toolCalls)) {
+          receivedChunk = true;
+          clearTimeout(timer);
+        }
+        yield chunk;
+      }
+      if (!receivedChunk) throw new EmptyResponseError();
+      return;
+    } catch (raw) {
+      if (signal?.aborted) return;
+      const error = timeout.signal.aborted && !receivedChunk ? new TimeoutError() : classifyError(raw);
+      if (!error.retryable || receivedChunk || attempt >= MAX_ATTEMPTS) throw error;
+
+      const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.round(Math.random() * 250);
+      yield { type: 'retry', attempt: attempt + 1, delayMs, error: error.toMessageError() };
+      await sleep(delayMs, signal);
+      if (signal?.aborted) return;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Fallback for backends that report no usage (e.g. the mock provider)
+const estimateRequestTokens = (request: OrionRequest): number =>
+  estimateTokens(request.systemInstruction) +
+  estimateTokens(request.prompt) +
+  request.history.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0) +
+  request.attachments.reduce((sum, attachment) => sum + estimateAttachmentTokens(attachment), 0) +
+  estimateTokens(JSON.stringify(request.toolRounds ?? []));
+
+/**
+ * Measures one reply or summary for telemetry. Each provider round trip is
+ * bracketed by startRound/endRound; rounds whose backend reported no usage
+ * are estimated. finish() stores the record in the background.
+ */
+const createCallMeter = (purpose: TelemetryRecord['purpose'], settings: OrionSettings, request: OrionRequest, sessionId: string | null) => {
+  const startedAt = new Date();
+  let firstTokenAt: number | null = null;
+  let promptTokens = 0;
+  let responseTokens = 0;
+  let estimated = false;
+  let toolCallCount = 0;
+
+  let round: { request: OrionRequest; usage?: TokenUsage; output: string } | null = null;
+
+  const endRound = () => {
+    if (!round) return;
+    if (round.usage) {
+      promptTokens += round.usage.promptTokens;
+      responseTokens += round.usage.responseTokens;
+    } else if (round.output) {
+      // Failed attempts that produced nothing are not billed
+      promptTokens += estimateRequestTokens(round.request);
+      responseTokens += estimateTokens(round.output);
+      estimated = true;
+    }
+    round = null;
+  };
+
+  return {
+    startRound: (roundRequest: OrionRequest) => {
+      endRound();
+      round = { request: roundRequest, output: '' };
+    },
+    observe: (chunk: ProviderChunk) => {
+      if (firstTokenAt === null && (chunk.text || chunk.toolCalls)) firstTokenAt = Date.now();
+      if (!round) return;
+      if (chunk.usage) round.usage = chunk.usage;
+      round.output += (chunk.text ?? '') + (chunk.toolCalls ? JSON.stringify(chunk.toolCalls) : '');
+      toolCallCount += chunk.toolCalls?.length ?? 0;
+    },
+    endRound,
+    finish: (outcome: CallOutcome, errorKind?: OrionErrorKind) => {
+      endRound();
+      recordTelemetry({
+        purpose,
+        sessionId,
+        provider: settings.provider,
+        model: request.model,
+        startedAt,
+        latencyMs: Date.now() - startedAt.getTime(),
+        timeToFirstTokenMs: firstTokenAt === null ? null : firstTokenAt - startedAt.getTime(),
+        promptTokens,
+        responseTokens,
+        estimated,
+        attachmentCount: request.attachments.length,
+        toolCallCount,
+        outcome,
+        errorKind
+      }).catch(error => console.error("Telemetry failure:", error));
+    }
+  };
+};
+
+export interface OrionCallOptions {
+  signal?: AbortSignal;
+  summary?: ConversationSummary; // Rolling summary of turns no longer sent verbatim
+  memories?: MemoryFact[]; // Long-term facts about the user, most relevant first
+  sessionId?: string | null; // Attributed in telemetry
+  tools?: {
+    registry: ToolRegistry;
+    environment: ToolEnvironment;
+    // Asked for calls whose category policy is 'ask'; resolves true to run the call
+    requestApproval: (call: ToolCall) => Promise<boolean>;
   };
+}
+
+// One line per known reading; sensors and fields kept private are already left out
+const describeContext = (context: SharedContext): string[] => {
+  const { connection, hardware, geolocation } = context;
+  const network = [
+    connection?.effectiveType,
+    connection?.type,
+    connection?.downlinkMbps && `~${connection.downlinkMbps} Mbps`,
+    connection?.saveData && 'data saver on',
+  ].filter(Boolean).join(', ');
+
+  const lines = [
+    context.currentTime !== undefined && `- Time: ${context.currentTime}${context.timeZone ? ` (${context.timeZone})` : ''}`,
+    context.isOnline !== undefined && `- Connection: ${context.isOnline ? "Online" : "Offline"}${network ? ` (${network})` : ''}`,
+    context.batteryLevel !== null
+      ? `- Power: ${(context.batteryLevel * 100).toFixed(0)}% ${context.isCharging ? "(Charging)" : "(Discharging)"}`
+      : `- Power: Unknown`,
+    context.platform !== undefined && `- Platform: ${context.platform}`,
+  ].filter((line): line is string => Boolean(line));
+  if (geolocation) lines.push(`- Location: Lat ${geolocation.lat}, Lng ${geolocation.lng}`);
+  if (context.locale) lines.push(`- Language: ${context.locale}`);
+  if (context.isVisible === false) lines.push(`- The user has switched away from ORION; they may read this later.`);
+  if (context.prefersReducedMotion) lines.push(`- The user prefers reduced motion.`);
+  if (hardware?.memoryGb || hardware?.cpuCores) {
+    lines.push(`- Hardware: ${[hardware.memoryGb && `~${hardware.memoryGb} GB memory`, hardware.cpuCores && `${hardware.cpuCores} CPU cores`].filter(Boolean).join(', ')}`);
+  }
+  return lines;
+};
+
+const getSystemInstruction = (
+  context: SharedContext,
+  settings: OrionSettings,
+  summary?: ConversationSummary,
+  memories: MemoryFact[] = []
+): string => {
+  const profile = getActiveProfile(settings);
 
   return `
     You are ORION, a next-generation intelligent operational entity living within this device.
@@ -14,83 +201,272 @@ const getSystemInstruction = (context: DeviceContext, settings: OrionSettings):
 
     Your Identity:
     - Name: ORION
-    - Tone: ${personalityTraits[settings.personality]}
+    - Tone: ${profile.tone}
     - Core Directive: Observe, Interpret, Suggest, Execute.
 
     Current Environmental Context:
-    - Time: ${context.currentTime}
-    - Connection: ${context.isOnline ? "Online" : "Offline"}
-    - Power: ${context.batteryLevel !== null ? `${(context.batteryLevel * 100).toFixed(0)}%` : "Unknown"} ${context.isCharging ? "(Charging)" : "(Discharging)"}
-    - Platform: ${context.platform}
-    ${context.geolocation ? `- Location: Lat ${context.geolocation.lat}, Lng ${context.geolocation.lng}` : ''}
+    ${describeContext(context).join('\n    ')}
 
     Capabilities:
-    - You can analyze images provided by the user.
-    - You simulate a persistent memory of this session.
+    - You can analyze images, PDFs and text/CSV documents provided by the user.
+    - You can execute operations through the provided tools (device status, your own settings, timers, reminders and recurring tasks, location, clipboard, web requests, exact math and unit conversion). Prefer a tool over guessing.
+    - Some operations require the user's approval. If one is denied, acknowledge it and do not retry it.
+    - You have a persistent memory of this session: recent turns are provided verbatim, older ones are summarized below.
+    - You have a long-term memory across sessions. Use the remember tool for durable facts the user shares (preferences, names, recurring tasks), update_memory or forget_memory when they change, and search_memory to look further back.
     - You should reference the device status if relevant (e.g., if battery is low, suggest saving energy).
 
     Visual Output Guide:
     - Use Markdown for formatting.
     - Keep responses visually clean. 
+    ${summary ? `\n    Memory of Earlier Conversation:\n    ${summary.text}` : ''}
+    ${memories.length > 0 ? `\n    Known Facts About the User (id in brackets):\n    ${memories.map(m => `- [${m.id}] ${m.text}`).join('\n    ')}` : ''}
   `;
 };
 
+const buildRequest = (
+  history: Message[],
+  currentPrompt: string,
+  attachments: Attachment[],
+  context: DeviceContext,
+  settings: OrionSettings,
+  options: OrionCallOptions
+): OrionRequest => ({
+  history,
+  prompt: currentPrompt,
+  attachments,
+  systemInstruction: getSystemInstruction(toSharedContext(context, settings), settings, options.summary, options.memories),
+  model: getActiveProfile(settings).model || settings.model,
+  temperature: getActiveProfile(settings).temperature,
+  signal: options.signal
+});
+
+const SUMMARY_INSTRUCTION = `
+  You maintain the long-term memory of an assistant called ORION.
+  Merge the previous summary and the new conversation turns into one updated summary.
+  Keep names, preferences, decisions, open tasks and facts the user shared. Drop small talk.
+  Reply with the summary only, as terse bullet points, under 200 words.
+`;
+
+const summarizeTurns = async (
+  previousSummary: string | undefined,
+  turns: Message[],
+  settings: OrionSettings,
+  signal?: AbortSignal,
+  sessionId: string | null = null
+): Promise<string> => {
+  const transcript = turns
+    .map(msg => `${msg.sender === Sender.User ? "User" : "Orion"}: ${msg.text}${msg.attachments?.length ? ` [attached: ${msg.attachments.map(a => a.name).join(', ')}]` : ''}`)
+    .join("\n");
+
+  const request: OrionRequest = redactRequest({
+    history: [],
+    prompt: `Previous summary:\n${previousSummary || "(none)"}\n\nNew turns:\n${transcript}`,
+    attachments: [],
+    systemInstruction: SUMMARY_INSTRUCTION,
+    model: getActiveProfile(settings).model || settings.model,
+    temperature: 0.2,
+    signal
+  }, settings.privacy);
+
+  const meter = createCallMeter('summary', settings, request, sessionId);
+  meter.startRound(request);
+  let text = "";
+  try {
+    for await (const chunk of getProvider(settings).stream(request)) {
+      meter.observe(chunk);
+      text += chunk.text ?? "";
+    }
+  } catch (error) {
+    meter.finish(signal?.aborted ? 'aborted' : 'error', classifyError(error).kind);
+    throw error;
+  }
+  meter.finish(signal?.aborted ? 'aborted' : 'success');
+  return text.trim();
+};
+
+// Turns not yet covered by the summary, and the token budget left for them
+const splitConversation = (history: Message[], summary: ConversationSummary | undefined, settings: OrionSettings) => {
+  // Inline failure notices and local messages (commands, reminders, proactive notices) are UI-only
+  const turns = history.filter(m => !m.error && !m.local);
+  const coveredIndex = summary ? turns.findIndex(m => m.id === summary.coveredUntilId) : -1;
+  // A summary ending outside this history was written for another branch of the conversation
+  const branchSummary = coveredIndex >= 0 ? summary : undefined;
+  return {
+    uncovered: turns.slice(coveredIndex + 1),
+    branchSummary,
+    budget: settings.contextTokenBudget - (branchSummary ? estimateTokens(branchSummary.text) : 0)
+  };
+};
+
+/**
+ * Trim history to the configured token budget. Turns already covered by the
+ * summary are dropped; turns that newly fall out of the budget are folded into
+ * an updated summary generated by the model. When folding, history is cut
+ * back to 75% of the budget so the summary isn't regenerated on every turn.
+ */
+export const prepareConversationContext = async (
+  history: Message[],
+  summary: ConversationSummary | undefined,
+  settings: OrionSettings,
+  signal?: AbortSignal,
+  sessionId: string | null = null
+): Promise<{ history: Message[]; summary?: ConversationSummary }> => {
+  const { uncovered, branchSummary, budget } = splitConversation(history, summary, settings);
+
+  if (fitToTokenBudget(uncovered, budget).overflow.length === 0) {
+    return { history: uncovered, summary: branchSummary };
+  }
+
+  const { included, overflow } = fitToTokenBudget(uncovered, Math.floor(budget * 0.75));
+  try {
+    const text = await summarizeTurns(branchSummary?.text, overflow, settings, signal, sessionId);
+    if (!text) return { history: included, summary: branchSummary };
+    return { history: included, summary: { text, coveredUntilId: overflow[overflow.length - 1].id } };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // Without a fresh summary the overflow is simply dropped this turn
+    console.error("Orion Memory Consolidation Failure:", error);
+    return { history: included, summary: branchSummary };
+  }
+};
+
+/**
+ * The first request a reply to `currentPrompt` would send, as it would leave
+ * the device. History is trimmed to the budget without generating a new
+ * summary, so turns that would be folded into it are simply left out.
+ */
+export const previewOrionRequest = (
+  history: Message[],
+  summary: ConversationSummary | undefined,
+  currentPrompt: string,
+  attachments: Attachment[],
+  context: DeviceContext,
+  settings: OrionSettings,
+  options: { memories?: MemoryFact[]; tools?: ToolRegistry } = {}
+): OrionRequest => {
+  const { uncovered, branchSummary, budget } = splitConversation(history, summary, settings);
+  const trimmed = fitToTokenBudget(uncovered, budget).included;
+  const request = buildRequest(trimmed, currentPrompt, attachments, context, settings, { summary: branchSummary, memories: options.memories });
+  return redactRequest({ ...request, tools: options.tools?.declarations() }, settings.privacy);
+};
+
 export const generateOrionResponse = async (
   history: Message[],
   currentPrompt: string,
-  images: string[], // base64 strings
+  attachments: Attachment[],
   context: DeviceContext,
-  settings: OrionSettings
+  settings: OrionSettings,
+  options: OrionCallOptions = {}
 ): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing.");
+  let responseText = "";
+  for await (const event of streamOrionResponse(history, currentPrompt, attachments, context, settings, options)) {
+    if (event.type === 'text') responseText += event.text;
   }
+  return responseText;
+};
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  // Format history for the model
-  // Note: For a stateless REST call, we'd typically send history. 
-  // Here we simplify by sending the last few turns + current prompt for context window management in this demo.
-  const recentHistory = history.slice(-6); 
-  
-  let conversationContext = "";
-  recentHistory.forEach(msg => {
-    conversationContext += `${msg.sender === Sender.User ? "User" : "Orion"}: ${msg.text}\n`;
-  });
-
-  const fullPrompt = `${conversationContext}\nUser: ${currentPrompt}`;
-
-  const parts: any[] = [{ text: fullPrompt }];
-
-  // Attach images if any
-  images.forEach(base64 => {
-    // Strip header if present (e.g., "data:image/png;base64,") for the API if needed, 
-    // but the SDK usually handles pure base64 data in inlineData. 
-    // We need to extract the raw base64.
-    const rawBase64 = base64.split(',')[1];
-    const mimeType = base64.split(';')[0].split(':')[1];
-    
-    parts.push({
-      inlineData: {
-        mimeType: mimeType || 'image/png',
-        data: rawBase64
-      }
-    });
-  });
+/**
+ * Streaming variant of generateOrionResponse. Yields text chunks as the
+ * selected provider produces them, plus a `tool` event whenever a tool call
+ * starts and again when it settles. Tool results are fed back to the model
+ * for up to MAX_TOOL_STEPS rounds; the final round is sent without tools so
+ * the model has to answer in text. Transient failures are retried (see
+ * streamWithRetry); anything else is thrown as an OrionError. Aborting the
+ * signal ends the stream quietly, so whatever was yielded up to that point
+ * can be kept by the caller.
+ * `history` is sent as-is; trim it with prepareConversationContext first.
+ */
+export async function* streamOrionResponse(
+  history: Message[],
+  currentPrompt: string,
+  attachments: Attachment[],
+  context: DeviceContext,
+  settings: OrionSettings,
+  options: OrionCallOptions = {}
+): AsyncGenerator<OrionStreamEvent> {
+  const { signal, tools } = options;
+  const provider = getProvider(settings);
+  const request = buildRequest(history, currentPrompt, attachments, context, settings, options);
+  const toolRounds: ToolCall[][] = [];
+  const meter = createCallMeter('reply', settings, request, options.sessionId ?? null);
+  let outcome: CallOutcome = 'success';
+  let errorKind: OrionErrorKind | undefined;
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-preview', // Using the fast, efficient model for an "Assistant" feel
-      contents: { parts },
-      config: {
-        systemInstruction: getSystemInstruction(context, settings),
-        temperature: 0.7, // Balanced creativity
+    for (let step = 0; step <= MAX_TOOL_STEPS; step++) {
+      const requestedCalls: ToolCallRequest[] = [];
+      const offerTools = tools && step < MAX_TOOL_STEPS;
+      // Everything the model sees passes the privacy redactor on its way out
+      const stepRequest = redactRequest({
+        ...request,
+        tools: offerTools ? tools.registry.declarations() : undefined,
+        toolRounds: [...toolRounds]
+      }, settings.privacy);
+
+      meter.startRound(stepRequest);
+      for await (const chunk of streamWithRetry(provider, stepRequest, signal)) {
+        if (signal?.aborted) return;
+        if ('type' in chunk) {
+          yield chunk;
+          continue;
+        }
+        meter.observe(chunk);
+        if (chunk.text) yield { type: 'text', text: chunk.text };
+        if (chunk.toolCalls) requestedCalls.push(...chunk.toolCalls);
       }
-    });
+      meter.endRound();
+
+      if (!tools || requestedCalls.length === 0) return;
+
+      const round: ToolCall[] = [];
+      for (const call of requestedCalls) {
+        // A call whose arguments didn't parse can't run, so there is nothing to approve or audit
+        const category = call.argumentsError ? undefined : tools.registry.get(call.name)?.category;
+        const policy = category ? settings.permissions[category] : 'allow';
+        let allowed = policy === 'allow';
+
+        if (policy === 'ask') {
+          // Pause the reply until the user decides
+          yield { type: 'tool', call: { ...call, status: 'awaiting-approval' } };
+          allowed = await tools.requestApproval({ ...call, status: 'awaiting-approval' });
+          if (signal?.aborted) return;
+        }
 
-    return response.text || "Systems unresponsive. Please try again.";
+        if (category) {
+          recordAuditEntry({
+            toolName: call.name,
+            category,
+            args: call.args,
+            decision: allowed ? 'allowed' : 'denied',
+            decidedBy: policy === 'ask' ? 'user' : 'policy'
+          }).catch(error => console.error("Audit log failure:", error));
+        }
+
+        let settled: ToolCall;
+        if (allowed) {
+          yield { type: 'tool', call: { ...call, status: 'running' } };
+          settled = await executeToolCall(tools.registry, call, tools.environment);
+          if (signal?.aborted) return;
+        } else {
+          settled = {
+            ...call,
+            status: 'denied',
+            error: policy === 'deny' ? "Blocked by the user's permission policy." : "The user denied this operation."
+          };
+        }
+        yield { type: 'tool', call: settled };
+        round.push(settled);
+      }
+      toolRounds.push(round);
+    }
   } catch (error) {
+    if (signal?.aborted) return;
     console.error("Orion Cognitive Failure:", error);
-    throw error;
+    const classified = classifyError(error);
+    outcome = 'error';
+    errorKind = classified.kind;
+    throw classified;
+  } finally {
+    meter.finish(signal?.aborted ? 'aborted' : outcome, errorKind);
   }
-};
+}
@@ -0,0 +1,3 @@
+/** A plain JSON object, as opposed to an array or null. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
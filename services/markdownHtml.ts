@@ -0,0 +1,149 @@
+// Minimal Markdown → HTML for standalone exports, so the renderer stays out
+// of the export path. Covers what replies actually use: headings, paragraphs,
+// lists, quotes, fenced code, tables, math and the common inline marks.
+// Everything is escaped first; only http(s), mailto and data:image URLs
+// become links or images.
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const SAFE_URL = /^(https?:|mailto:|data:image\/)/i;
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Inline marks on already-escaped text; code spans and math are set aside first so their contents stay literal
+const renderInline = (text: string): string => {
+  const held: string[] = [];
+  const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`;
+
+  let html = escapeHtml(text)
+    .replace(/`([^`]+)`/g, (_, code) => hold(`<code>${code}</code>`))
+    .replace(/\$([^$\n]+?)\$/g, (_, math) => hold(`<span class="math">${math}</span>`))
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (match, alt, url) =>
+      SAFE_URL.test(url) ? hold(`<img src="${url}" alt="${alt}">`) : match)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label, url) =>
+      SAFE_URL.test(url) ? `<a href="${url}" target="_blank" rel="noopener noreferrer">${label}</a>` : match)
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)|(^|\W)_(?!\s)(.+?)_(?!\w)/g, (_, p1, a, p2, b) => `${p1 ?? p2}<em>${a ?? b}</em>`)
+    .replace(/~~(.+?)~~/g, '<del>$1</del>');
+
+  // Held fragments may themselves hold others (e.g. code inside a link label)
+  while (/\u0000\d+\u0000/.test(html)) {
+    html = html.replace(/\u0000(\d+)\u0000/g, (_, index) => held[Number(index)]);
+  }
+  return html;
+};
+
+const splitRow = (line: string): string[] =>
+  line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+
+const renderList = (lines: string[]): string => {
+  const ordered = /^\s*\d/.test(lines[0]);
+  const items: string[] = [];
+  lines.forEach(line => {
+    const match = line.match(LIST_ITEM);
+    if (match) items.push(match[3]);
+    else items[items.length - 1] += ` ${line.trim()}`;
+  });
+  const html = items.map(item => {
+    const task = item.match(/^\[([ xX])\]\s+(.*)$/);
+    return task
+      ? `<li class="task">${task[1] === ' ' ? '☐' : '☑'} ${renderInline(task[2])}</li>`
+      : `<li>${renderInline(item)}</li>`;
+  }).join('');
+  return ordered ? `<ol>${html}</ol>` : `<ul>${html}</ul>`;
+};
+
+const renderTable = (lines: string[]): string => {
+  const [header, , ...rows] = lines.map(splitRow);
+  return `<table><thead><tr>${header.map(cell => `<th>${renderInline(cell)}</th>`).join('')}</tr></thead>` +
+    `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${renderInline(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+};
+
+export const markdownToHtml = (markdown: string): string => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let i = 0;
+
+  const startsBlock = (line: string, next?: string) =>
+    FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) ||
+    line.trim() === '$$' || (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next));
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) body.push(lines[i]);
+      i++;
+      const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      blocks.push(`<pre><code${language}>${escapeHtml(body.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (line.trim() === '$$') {
+      const body: string[] = [];
+      for (i++; i < lines.length && lines[i].trim() !== '$$'; i++) body.push(lines[i]);
+      i++;
+      blocks.push(`<pre class="math">${escapeHtml(body.join('\n'))}</pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) body.push(lines[i].replace(QUOTE, ''));
+      blocks.push(`<blockquote>${markdownToHtml(body.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const body: string[] = [];
+      const isOrderedItem = (text: string) => /^\d/.test(text);
+      const continuesList = (text: string) =>
+        /^\s+/.test(text) || (LIST_ITEM.test(text) && isOrderedItem(text) === isOrderedItem(line.trimStart()));
+      // Items continue over indented lines; a blank line, a new block or the other kind of list ends it
+      for (; i < lines.length && lines[i].trim() && continuesList(lines[i]); i++) body.push(lines[i]);
+      blocks.push(renderList(body));
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      const body: string[] = [];
+      for (; i < lines.length && lines[i].includes('|'); i++) body.push(lines[i]);
+      blocks.push(renderTable(body));
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i], lines[i + 1])); i++) {
+      paragraph.push(lines[i].trim());
+    }
+    blocks.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+  }
+
+  return blocks.join('\n');
+};
@@ -0,0 +1,128 @@
+import { MemoryFact } from "../types";
+import { STORES, clearStore, deleteOne, getAll, getOne, putOne } from "./db";
+import { downloadFile } from "./download";
+
+// Facts are meant to be one-liners; longer text belongs in the conversation
+export const MAX_MEMORY_FACT_LENGTH = 300;
+
+// How many facts are injected into the system instruction per request
+export const MEMORY_PROMPT_LIMIT = 8;
+
+const normalizeFact = (text: string): string => {
+  const fact = text.trim().replace(/\s+/g, ' ');
+  if (!fact) throw new Error("A memory needs some text.");
+  if (fact.length > MAX_MEMORY_FACT_LENGTH) {
+    throw new Error(`Memories are limited to ${MAX_MEMORY_FACT_LENGTH} characters; store a shorter fact.`);
+  }
+  return fact;
+};
+
+const reviveFact = (fact: MemoryFact): MemoryFact => ({
+  ...fact,
+  createdAt: new Date(fact.createdAt),
+  updatedAt: new Date(fact.updatedAt)
+});
+
+/** Everything remembered, most recently updated first. */
+export const listMemories = async (): Promise<MemoryFact[]> =>
+  (await getAll<MemoryFact>(STORES.memories))
+    .map(reviveFact)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+/** Store a new fact. Restating a known fact only refreshes it. */
+export const rememberFact = async (
+  text: string,
+  source: { messageId?: string; sessionId?: string } = {}
+): Promise<MemoryFact> => {
+  const fact = normalizeFact(text);
+  const now = new Date();
+  const existing = (await listMemories()).find(m => m.text.toLowerCase() === fact.toLowerCase());
+  const stored: MemoryFact = existing
+    ? { ...existing, updatedAt: now }
+    : {
+        id: crypto.randomUUID(),
+        text: fact,
+        createdAt: now,
+        updatedAt: now,
+        sourceMessageId: source.messageId,
+        sourceSessionId: source.sessionId
+      };
+  await putOne(STORES.memories, stored);
+  return stored;
+};
+
+export const updateMemory = async (id: string, text: string): Promise<MemoryFact> => {
+  const existing = await getOne<MemoryFact>(STORES.memories, id);
+  if (!existing) throw new Error(`No memory with id "${id}".`);
+  const updated: MemoryFact = { ...reviveFact(existing), text: normalizeFact(text), updatedAt: new Date() };
+  await putOne(STORES.memories, updated);
+  return updated;
+};
+
+export const forgetMemory = async (id: string): Promise<void> => {
+  if (!(await getOne<MemoryFact>(STORES.memories, id))) throw new Error(`No memory with id "${id}".`);
+  await deleteOne(STORES.memories, id);
+};
+
+export const clearMemories = (): Promise<void> => clearStore(STORES.memories);
+
+// --- Relevance ---
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'have', 'has',
+  'was', 'were', 'what', 'when', 'where', 'who', 'how', 'can', 'could', 'would', 'should', 'does',
+  'did', 'about', 'from', 'into', 'they', 'them', 'their', 'user', 'users', 'please', 'just',
+]);
+
+const tokenize = (text: string): string[] => {
+  const words: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    // Crude stemming so "meetings" matches "meeting"
+    .map(word => word.length > 4 ? word.replace(/(ing|ed|es|s)$/, '') : word);
+};
+
+// Recency keeps a small weight so ties (and unrelated prompts) favour fresh facts
+const RECENCY_WEIGHT = 0.5;
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+/**
+ * Rank facts against a query with TF-IDF word overlap plus a recency bonus, and
+ * return the top `limit`. Facts sharing no words with the query still fill the
+ * remaining slots, newest first.
+ */
+export const rankMemories = (facts: MemoryFact[], query: string, limit = MEMORY_PROMPT_LIMIT, now = new Date()): MemoryFact[] => {
+  const factTokens = facts.map(fact => new Set(tokenize(fact.text)));
+  const documentFrequency = new Map<string, number>();
+  factTokens.forEach(tokens => tokens.forEach(token => documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1)));
+
+  const queryTokens = new Set(tokenize(query));
+  const scored = facts.map((fact, index) => {
+    let overlap = 0;
+    queryTokens.forEach(token => {
+      if (factTokens[index].has(token)) {
+        overlap += Math.log((facts.length + 1) / ((documentFrequency.get(token) ?? 0) + 1)) + 1;
+      }
+    });
+    const ageDays = (now.getTime() - fact.updatedAt.getTime()) / 86400000;
+    const recency = RECENCY_WEIGHT * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+    return { fact, score: overlap + recency };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ fact }) => fact);
+};
+
+// --- Export ---
+
+export const downloadMemories = (facts: MemoryFact[]): void => {
+  const payload = {
+    format: 'orion-memories',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    memories: facts
+  };
+  downloadFile('orion-memories.json', JSON.stringify(payload, null, 2), 'application/json');
+};
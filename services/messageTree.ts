@@ -0,0 +1,70 @@
+import { ConversationBranches, Message } from "../types";
+
+// Conversations are trees: each message points at the one it follows through
+// `parentId`. The chat shows, and the model receives, one root-to-leaf path (the
+// active branch); every other message is kept aside in `branches`. Messages on
+// the path are linked implicitly by their order until they are moved aside.
+
+const byTime = (a: Message, b: Message) => a.timestamp.getTime() - b.timestamp.getTime();
+
+/** Write the implicit links of a linear path out as parentIds. */
+export const linkPath = (path: Message[]): Message[] =>
+  path.map((msg, i) => {
+    const parentId = i === 0 ? null : path[i - 1].id;
+    return msg.parentId === parentId ? msg : { ...msg, parentId };
+  });
+
+// Split a set of nodes into the path ending at `leafId` and everything else
+const selectLeaf = (nodes: Message[], leafId: string): ConversationBranches => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const path: Message[] = [];
+  for (let node = byId.get(leafId); node; node = node.parentId ? byId.get(node.parentId) : undefined) {
+    path.unshift(node);
+  }
+  const onPath = new Set(path.map(node => node.id));
+  return { path, branches: nodes.filter(node => !onPath.has(node.id)) };
+};
+
+// Descend from `fromId`, following the newest child at every step
+const latestLeaf = (nodes: Message[], fromId: string): string => {
+  let current = fromId;
+  for (;;) {
+    const children = nodes.filter(node => node.parentId === current);
+    if (children.length === 0) return current;
+    current = children.sort(byTime)[children.length - 1].id;
+  }
+};
+
+/** The message at this point of the path plus its alternates, oldest first. */
+export const getVariants = ({ path, branches }: ConversationBranches, messageId: string): Message[] => {
+  const index = path.findIndex(m => m.id === messageId);
+  if (index < 0) return [];
+  const parentId = index === 0 ? null : path[index - 1].id;
+  return [path[index], ...branches.filter(node => (node.parentId ?? null) === parentId)].sort(byTime);
+};
+
+/** Make `variantId` part of the active branch, continuing down its newest replies. */
+export const switchToVariant = ({ path, branches }: ConversationBranches, variantId: string): ConversationBranches => {
+  const nodes = [...linkPath(path), ...branches];
+  return selectLeaf(nodes, latestLeaf(nodes, variantId));
+};
+
+/** Keep the first `index` messages on screen; the rest becomes an alternate branch. */
+export const branchAt = ({ path, branches }: ConversationBranches, index: number): ConversationBranches => {
+  const linked = linkPath(path);
+  return { path: linked.slice(0, index), branches: [...branches, ...linked.slice(index)] };
+};
+
+/** Drop one message; whatever followed it now follows its parent instead. */
+export const removeMessage = ({ path, branches }: ConversationBranches, messageId: string): ConversationBranches => {
+  const linked = linkPath(path);
+  const target = [...linked, ...branches].find(node => node.id === messageId);
+  if (!target) return { path, branches };
+  const parentId = target.parentId ?? null;
+  return {
+    path: linkPath(linked.filter(node => node.id !== messageId)),
+    branches: branches
+      .filter(node => node.id !== messageId)
+      .map(node => node.parentId === messageId ? { ...node, parentId } : node)
+  };
+};
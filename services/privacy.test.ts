@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Attachment, OrionRequest, PrivacySettings, Sender } from '../types';
+import { DEFAULT_PRIVACY } from '../constants';
+import { decodeTextAttachment, encodeTextAttachment } from './attachments';
+import { redactRequest } from './privacy';
+
+const textAttachment = (mimeType: string, text: string): Attachment => {
+  const data = encodeTextAttachment(text);
+  return { id: crypto.randomUUID(), name: 'file', mimeType, size: text.length, data };
+};
+
+const request = (overrides: Partial<OrionRequest> = {}): OrionRequest => ({
+  history: [],
+  prompt: '',
+  attachments: [],
+  systemInstruction: '',
+  model: 'test-model',
+  temperature: 0.7,
+  ...overrides,
+});
+
+describe('redactRequest', () => {
+  it('masks emails, phone numbers and card numbers in the prompt', () => {
+    const { prompt } = redactRequest(request({
+      prompt: 'Mail ann@example.org, call +44 20 7946 0958, card 4111 1111 1111 1111.',
+    }), DEFAULT_PRIVACY);
+    expect(prompt).toBe('Mail [EMAIL], call [PHONE], card [CARD].');
+  });
+
+  it('leaves look-alikes alone', () => {
+    const text = 'Order 1234 5678 9012 3456 on 2026-01-15 at 51.5072, -0.1276.';
+    expect(redactRequest(request({ prompt: text }), DEFAULT_PRIVACY).prompt).toBe(text);
+  });
+
+  it('leaves plain digit runs alone', () => {
+    expect(redactRequest(request({ prompt: 'Bought 12345678 apples.' }), DEFAULT_PRIVACY).prompt).toBe('Bought 12345678 apples.');
+  });
+
+  it('keeps memory ids in the system instruction intact', () => {
+    const ids = Array.from({ length: 2000 }, () => crypto.randomUUID());
+    const systemInstruction = `Known facts:\n${ids.map(id => `- [${id}] Likes tea`).join('\n')}\nCall 555-123-4567 for help.`;
+    const redacted = redactRequest(request({ systemInstruction }), DEFAULT_PRIVACY).systemInstruction;
+    expect(redacted).toBe(systemInstruction.replace('555-123-4567', '[PHONE]'));
+  });
+
+  it('does not redact id fields in tool calls', () => {
+    const memoryId = '12345678-1234-4234-9234-123456789012';
+    const [[call]] = redactRequest(request({
+      toolRounds: [[{
+        id: 't1', name: 'update_memory', status: 'success', args: { memoryId, text: 'Phone is 555-123-4567' }, result: { id: '5551234567' },
+      }]],
+    }), DEFAULT_PRIVACY).toolRounds!;
+    expect(call.args).toEqual({ memoryId, text: 'Phone is [PHONE]' });
+    expect(call.result).toEqual({ id: '5551234567' });
+  });
+
+  it('honours disabled built-ins and enabled custom patterns', () => {
+    const privacy: PrivacySettings = {
+      ...DEFAULT_PRIVACY,
+      redact: { ...DEFAULT_PRIVACY.redact, email: false },
+      customPatterns: [
+        { id: '1', label: 'employee', pattern: 'EMP-\\d{6}', enabled: true },
+        { id: '2', label: 'off', pattern: 'secret', enabled: false },
+      ],
+    };
+    const { prompt } = redactRequest(request({ prompt: 'EMP-123456 ann@example.org secret' }), privacy);
+    expect(prompt).toBe('[EMPLOYEE] ann@example.org secret');
+  });
+
+  it('redacts the system instruction, history and tool rounds', () => {
+    const redacted = redactRequest(request({
+      systemInstruction: 'User email: ann@example.org',
+      history: [{ id: 'm1', text: 'I am ann@example.org', sender: Sender.User, timestamp: new Date() }],
+      toolRounds: [[{
+        id: 't1', name: 'lookup', status: 'success', args: { query: 'ann@example.org' }, result: { contacts: ['bob@example.org'] },
+      }]],
+    }), DEFAULT_PRIVACY);
+
+    expect(redacted.systemInstruction).toBe('User email: [EMAIL]');
+    expect(redacted.history[0].text).toBe('I am [EMAIL]');
+    expect(redacted.toolRounds?.[0][0]).toMatchObject({ id: 't1', name: 'lookup', args: { query: '[EMAIL]' }, result: { contacts: ['[EMAIL]'] } });
+  });
+
+  it('redacts text attachments and updates their size', () => {
+    const csv = textAttachment('text/csv', 'name,email\nZoë,zoe@example.org\n');
+    const [redacted] = redactRequest(request({ attachments: [csv] }), DEFAULT_PRIVACY).attachments;
+
+    expect(decodeTextAttachment(redacted)).toBe('name,email\nZoë,[EMAIL]\n');
+    expect(redacted.size).toBe(new TextEncoder().encode('name,email\nZoë,[EMAIL]\n').length);
+  });
+
+  it('keeps JSON attachments parseable', () => {
+    const json = textAttachment('application/json', '{"email":"ann@example.org","id":5551234567}');
+    const [redacted] = redactRequest(request({ attachments: [json] }), DEFAULT_PRIVACY).attachments;
+    expect(JSON.parse(decodeTextAttachment(redacted))).toEqual({ email: '[EMAIL]', id: 5551234567 });
+  });
+
+  it('passes images and untouched documents through unchanged', () => {
+    const image: Attachment = { id: 'i', name: 'photo.png', mimeType: 'image/png', size: 3, data: 'AAAA' };
+    const clean = textAttachment('text/plain', 'nothing to hide');
+    const { attachments } = redactRequest(request({ attachments: [image, clean] }), DEFAULT_PRIVACY);
+    expect(attachments[0]).toBe(image);
+    expect(attachments[1]).toBe(clean);
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  Attachment, BuiltInRedaction, CoreContextField, DeviceContext, LocationPrecision, Message, OrionRequest, PrivacySettings, RedactionPattern, SharedContext, ToolCall
+} from "../types";
+import { base64Size, decodeTextAttachment, encodeTextAttachment, isTextAttachment } from "./attachments";
+import { isRecord } from "./guards";
+
+// --- Context consent ---
+
+export const CORE_CONTEXT_FIELDS: { id: CoreContextField; label: string; description: string }[] = [
+  { id: 'currentTime', label: 'Local Time', description: 'Date and time on this device.' },
+  { id: 'isOnline', label: 'Connectivity', description: 'Whether the device is online.' },
+  { id: 'platform', label: 'Platform', description: 'Operating system and browser.' },
+];
+
+// Decimal places kept, and the resulting worst-case error in meters
+const LOCATION_ROUNDING: Record<Exclude<LocationPrecision, 'exact'>, { decimals: number; meters: number }> = {
+  city: { decimals: 1, meters: 11_000 },
+  region: { decimals: 0, meters: 111_000 },
+};
+
+/** A position rounded to `precision`; the accuracy is widened to match. */
+export const coarsenLocation = <T extends { lat: number; lng: number; accuracy?: number }>(position: T, precision: LocationPrecision): T => {
+  if (precision === 'exact') return position;
+  const { decimals, meters } = LOCATION_ROUNDING[precision];
+  const round = (value: number) => Number(value.toFixed(decimals));
+  return { ...position, lat: round(position.lat), lng: round(position.lng), accuracy: Math.max(position.accuracy ?? 0, meters) };
+};
+
+/** Drops core fields the user keeps private and coarsens the location. */
+export const applyContextConsent = (context: DeviceContext, privacy: PrivacySettings): SharedContext => {
+  const shared: SharedContext = { ...context };
+  CORE_CONTEXT_FIELDS
+    .filter(field => !privacy.sharedFields[field.id])
+    .forEach(field => delete shared[field.id]);
+  if (shared.geolocation) shared.geolocation = coarsenLocation(shared.geolocation, privacy.locationPrecision);
+  return shared;
+};
+
+// --- Redaction ---
+
+interface RedactionRule {
+  label: string;
+  pattern: RegExp;
+  accept?: (match: string) => boolean; // Filters out look-alikes the pattern can't tell apart
+}
+
+const digitCount = (text: string) => text.replace(/\D/g, '').length;
+
+// Luhn checksum, so order numbers and the like aren't masked as cards
+const passesLuhn = (text: string): boolean => {
+  const digits = text.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Cards run before phones: a card number also looks like a long phone number.
+// Neither may touch a hyphen or word character on either side, so digit runs
+// inside UUIDs, hex ids and hyphenated codes are left alone
+export const BUILT_IN_REDACTIONS: { id: BuiltInRedaction; name: string; rule: RedactionRule }[] = [
+  {
+    id: 'email',
+    name: 'Email addresses',
+    rule: { label: 'EMAIL', pattern: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi },
+  },
+  {
+    id: 'card',
+    name: 'Card numbers',
+    rule: { label: 'CARD', pattern: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g, accept: passesLuhn },
+  },
+  {
+    id: 'phone',
+    name: 'Phone numbers',
+    rule: {
+      label: 'PHONE',
+      pattern: /(?<![\w+.-])\+?(?:\(\d{1,4}\)|\d{1,4})(?:[ .-]?(?:\(\d{1,4}\)|\d{2,4})){1,4}(?![\w-])/g,
+      // Written like a phone number (a leading +, a separator or an area code in
+      // parentheses), so plain counts such as "12345678 apples" stay; not ISO
+      // dates or decimals such as coordinates
+      accept: match => digitCount(match) >= 7 && digitCount(match) <= 15 && /[+ .()-]/.test(match) &&
+        !/^\d{4}-\d{2}-\d{2}$|^\d+\.\d+$/.test(match),
+    },
+  },
+];
+
+/** Why `pattern` can't be used as a custom redaction, or null when it is valid. */
+export const validateRedactionPattern = (pattern: string): string | null => {
+  if (!pattern) return 'Pattern is empty.';
+  try {
+    // A pattern matching the empty string would insert a label between every character
+    if (new RegExp(pattern, 'i').test('')) return 'Pattern matches empty text.';
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+/** A custom pattern from untrusted JSON, e.g. stored settings. Throws when it is malformed or invalid. */
+export const parseRedactionPattern = (raw: unknown): RedactionPattern => {
+  if (
+    !isRecord(raw) || typeof raw.id !== 'string' || typeof raw.label !== 'string' ||
+    typeof raw.pattern !== 'string' || typeof raw.enabled !== 'boolean'
+  ) {
+    throw new Error("Redaction pattern is malformed.");
+  }
+  const error = validateRedactionPattern(raw.pattern);
+  if (error) throw new Error(error);
+  return { id: raw.id, label: raw.label, pattern: raw.pattern, enabled: raw.enabled };
+};
+
+const toRule = (custom: RedactionPattern): RedactionRule | null =>
+  validateRedactionPattern(custom.pattern) === null
+    ? { label: custom.label.trim().toUpperCase() || 'REDACTED', pattern: new RegExp(custom.pattern, 'gi') }
+    : null;
+
+/** Masks every enabled kind of personal data in `text` as [LABEL]. */
+export const createRedactor = (privacy: PrivacySettings): ((text: string) => string) => {
+  const rules = [
+    ...BUILT_IN_REDACTIONS.filter(r => privacy.redact[r.id]).map(r => r.rule),
+    ...privacy.customPatterns.filter(p => p.enabled).map(toRule).filter((rule): rule is RedactionRule => rule !== null),
+  ];
+
+  return (text) => rules.reduce(
+    (redacted, rule) => redacted.replace(rule.pattern, match => (!rule.accept || rule.accept(match) ? `[${rule.label}]` : match)),
+    text
+  );
+};
+
+// Fields such as `id`, `taskId` or `memory_ids` hold references the tools must get back intact
+const isIdField = (key: string): boolean => /^ids?$|(Id|Ids|_id|_ids)$/.test(key);
+
+// Tool arguments and results are arbitrary JSON
+const redactValue = (value: unknown, redact: (text: string) => string): unknown => {
+  if (typeof value === 'string') return redact(value);
+  if (Array.isArray(value)) return value.map(item => redactValue(item, redact));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, isIdField(key) ? item : redactValue(item, redact)]));
+  }
+  return value;
+};
+
+// Ids and names are left alone so calls still pair up with their results
+const redactToolCall = (call: ToolCall, redact: (text: string) => string): ToolCall => ({
+  ...call,
+  args: redactValue(call.args, redact) as ToolCall['args'],
+  result: redactValue(call.result, redact),
+  error: call.error && redact(call.error),
+});
+
+// JSON documents are redacted value by value so they still parse; a masked
+// number would otherwise leave invalid JSON behind
+const redactDocument = (attachment: Attachment, text: string, redact: (text: string) => string): string => {
+  if (attachment.mimeType === 'application/json') {
+    try {
+      const value: unknown = JSON.parse(text);
+      const redacted = redactValue(value, redact);
+      return JSON.stringify(redacted) === JSON.stringify(value) ? text : JSON.stringify(redacted, null, 2);
+    } catch {
+      // Not valid JSON to begin with; fall through to plain text
+    }
+  }
+  return redact(text);
+};
+
+// Text documents are decoded, redacted and re-encoded; images and PDFs can't be scanned and pass unchanged
+const redactAttachment = (attachment: Attachment, redact: (text: string) => string): Attachment => {
+  if (!isTextAttachment(attachment)) return attachment;
+  const text = decodeTextAttachment(attachment);
+  const redacted = redactDocument(attachment, text, redact);
+  if (redacted === text) return attachment;
+  const data = encodeTextAttachment(redacted);
+  return { ...attachment, data, size: base64Size(data) };
+};
+
+const redactMessage = (message: Message, redact: (text: string) => string): Message => ({
+  ...message,
+  text: redact(message.text),
+  attachments: message.attachments?.map(attachment => redactAttachment(attachment, redact)),
+  toolCalls: message.toolCalls?.map(call => redactToolCall(call, redact)),
+});
+
+/**
+ * The request as it may leave the device: every text the model would see,
+ * including text attachments, is passed through the redactor. Images and
+ * PDFs are sent as they are.
+ */
+export const redactRequest = (request: OrionRequest, privacy: PrivacySettings): OrionRequest => {
+  const redact = createRedactor(privacy);
+  return {
+    ...request,
+    systemInstruction: redact(request.systemInstruction),
+    prompt: redact(request.prompt),
+    attachments: request.attachments.map(attachment => redactAttachment(attachment, redact)),
+    history: request.history.map(message => redactMessage(message, redact)),
+    toolRounds: request.toolRounds?.map(round => round.map(call => redactToolCall(call, redact))),
+  };
+};
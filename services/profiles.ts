@@ -0,0 +1,87 @@
+import { OrionSettings, PersonalityProfile } from "../types";
+import { BUILT_IN_PROFILES } from "../constants";
+import { downloadFile, toFileSlug } from "./download";
+import { isRecord } from "./guards";
+
+const PROFILE_FILE_FORMAT = 'orion-profiles';
+const PROFILE_FILE_VERSION = 1;
+
+export const getAllProfiles = (settings: OrionSettings): PersonalityProfile[] =>
+  [...BUILT_IN_PROFILES, ...settings.customProfiles];
+
+/** Active profile, falling back to the first built-in if the id is stale. */
+export const getActiveProfile = (settings: OrionSettings): PersonalityProfile =>
+  getAllProfiles(settings).find(p => p.id === settings.personality) ?? BUILT_IN_PROFILES[0];
+
+/** Match by id or (case-insensitive) name, for tools and commands. */
+export const findProfile = (settings: OrionSettings, idOrName: string): PersonalityProfile | undefined => {
+  const needle = idOrName.trim().toLowerCase();
+  return getAllProfiles(settings).find(p => p.id === idOrName || p.name.toLowerCase() === needle);
+};
+
+export const createProfile = (): PersonalityProfile => ({
+  id: crypto.randomUUID(),
+  name: 'Custom Orion',
+  tone: "calm and attentive. Explain your reasoning briefly before giving an answer.",
+  temperature: 0.7,
+});
+
+export const clampTemperature = (value: number): number =>
+  Math.min(2, Math.max(0, Math.round(value * 100) / 100));
+
+export const downloadProfiles = (profiles: PersonalityProfile[]): void => {
+  const payload = {
+    format: PROFILE_FILE_FORMAT,
+    version: PROFILE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles: profiles.map(({ builtIn, ...profile }) => profile)
+  };
+  const filename = profiles.length === 1
+    ? `orion-profile-${toFileSlug(profiles[0].name)}.json`
+    : 'orion-profiles.json';
+  downloadFile(filename, JSON.stringify(payload, null, 2), 'application/json');
+};
+
+/** Name, tone, temperature and model of a profile from untrusted JSON. Throws with a user-facing message. */
+export const parseProfileFields = (raw: unknown, index: number): Omit<PersonalityProfile, 'id'> => {
+  if (!isRecord(raw) || typeof raw.name !== 'string' || !raw.name.trim()) {
+    throw new Error(`Profile #${index + 1} has no name.`);
+  }
+  if (typeof raw.tone !== 'string' || !raw.tone.trim()) {
+    throw new Error(`Profile "${raw.name}" has no tone instructions.`);
+  }
+  if (typeof raw.temperature !== 'number' || Number.isNaN(raw.temperature)) {
+    throw new Error(`Profile "${raw.name}" has an invalid temperature.`);
+  }
+  return {
+    name: raw.name.trim(),
+    tone: raw.tone.trim(),
+    temperature: clampTemperature(raw.temperature),
+    model: typeof raw.model === 'string' && raw.model.trim() ? raw.model.trim() : undefined
+  };
+};
+
+/**
+ * Parse an exported profile file. Throws with a user-facing message when the
+ * file isn't valid. Imported profiles get fresh ids so they never collide.
+ */
+export const parseProfileFile = (text: string): PersonalityProfile[] => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+
+  if (!isRecord(payload) || payload.format !== PROFILE_FILE_FORMAT || !Array.isArray(payload.profiles)) {
+    throw new Error("File is not an Orion profile export.");
+  }
+  if (typeof payload.version !== 'number' || payload.version > PROFILE_FILE_VERSION) {
+    throw new Error(`Unsupported profile file version: ${payload.version}.`);
+  }
+
+  return payload.profiles.map((raw: unknown, index: number): PersonalityProfile => ({
+    id: crypto.randomUUID(),
+    ...parseProfileFields(raw, index)
+  }));
+};
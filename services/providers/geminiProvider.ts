@@ -0,0 +1,160 @@
+import type { Content, GenerateContentResponse, Part } from "@google/genai";
+import { Attachment, OrionProvider, OrionRequest, Sender } from "../../types";
+import { MissingApiKeyError, NetworkOfflineError, ProviderError, RateLimitError, SafetyBlockError } from "../errors";
+
+// The key lives on the server: requests go through the local /api/orion/chat
+// proxy (see server/orionProxy.ts), which streams Gemini's chunks back as NDJSON.
+const CHAT_ENDPOINT = '/api/orion/chat';
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+const toProxyError = (status: number, message: string) => {
+  if (status === 429) return new RateLimitError(message);
+  if (status === 401 || status === 403) return new MissingApiKeyError(message);
+  return new ProviderError(message, status >= 500);
+};
+
+// Images, PDFs and text documents are all sent as inline parts
+const toParts = (text: string, attachments: Attachment[] = []) => {
+  const parts: Part[] = [];
+  if (text) parts.push({ text });
+  attachments.forEach(attachment => parts.push({
+    inlineData: { mimeType: attachment.mimeType, data: attachment.data }
+  }));
+  return parts;
+};
+
+// Role-tagged turns, with every earlier attachment kept. Consecutive turns from
+// the same side (e.g. a stopped reply followed by a new prompt) are merged
+// because the API expects user and model turns to alternate.
+const buildContents = (request: OrionRequest): Content[] => {
+  const contents: Content[] = [];
+
+  const pushTurn = (role: 'user' | 'model', parts: Part[]) => {
+    if (parts.length === 0) return;
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts = [...(last.parts ?? []), ...parts];
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  request.history.forEach(msg => {
+    pushTurn(msg.sender === Sender.User ? 'user' : 'model', toParts(msg.text, msg.attachments));
+  });
+  pushTurn('user', toParts(request.prompt, request.attachments));
+
+  // Earlier steps of the tool loop: the model's calls, then our results
+  request.toolRounds?.forEach(round => {
+    contents.push({
+      role: 'model',
+      parts: round.map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args } }))
+    });
+    contents.push({
+      role: 'user',
+      parts: round.map(call => ({
+        functionResponse: {
+          id: call.id,
+          name: call.name,
+          response: call.error !== undefined ? { error: call.error } : { output: call.result }
+        }
+      }))
+    });
+  });
+
+  return contents;
+};
+
+function* readChunk(chunk: GenerateContentResponse) {
+  const blockReason = chunk.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(chunk.promptFeedback?.blockReasonMessage || `Prompt blocked (${blockReason}).`);
+  }
+  const finishReason = chunk.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockError(`Response blocked (${finishReason}).`);
+  }
+
+  // Read parts directly: the chunk may hold function calls alongside text
+  const parts = chunk.candidates?.[0]?.content?.parts ?? [];
+  const text = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+  const toolCalls = parts
+    .filter(p => p.functionCall?.name)
+    .map(p => ({
+      id: p.functionCall!.id || crypto.randomUUID(),
+      name: p.functionCall!.name!,
+      args: p.functionCall!.args ?? {}
+    }));
+
+  // Usage is cumulative and usually only complete on the last chunk; thinking tokens bill as output
+  const metadata = chunk.usageMetadata;
+  const usage = metadata && {
+    promptTokens: metadata.promptTokenCount ?? 0,
+    responseTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0)
+  };
+
+  if (text || toolCalls.length > 0 || usage) {
+    yield { text: text || undefined, toolCalls: toolCalls.length > 0 ? toolCalls : undefined, usage };
+  }
+}
+
+export const geminiProvider: OrionProvider = {
+  id: 'gemini',
+
+  async *stream(request: OrionRequest) {
+    if (!navigator.onLine) {
+      throw new NetworkOfflineError();
+    }
+
+    const response = await fetch(CHAT_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: request.model,
+        contents: buildContents(request),
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          tools: request.tools?.length
+            ? [{
+                functionDeclarations: request.tools.map(tool => ({
+                  name: tool.name,
+                  description: tool.description,
+                  parametersJsonSchema: tool.parameters
+                }))
+              }]
+            : undefined,
+        }
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null);
+      throw toProxyError(response.status, body?.error?.message || `Proxy responded with HTTP ${response.status}.`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const chunk = JSON.parse(line);
+        if (chunk.error) {
+          throw toProxyError(chunk.error.status, chunk.error.message);
+        }
+        yield* readChunk(chunk as GenerateContentResponse);
+      }
+    }
+  }
+};
@@ -0,0 +1,49 @@
+import { OrionProvider, OrionSettings } from "../../types";
+import { geminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+
+// Reused while its options are unchanged, so the scripted replies and the failure count carry on between requests
+let mockProvider: { key: string; provider: OrionProvider } | null = null;
+
+const getMockProvider = (settings: OrionSettings): OrionProvider => {
+  const key = `${settings.mockLatencyMs}:${settings.mockFailEvery}`;
+  if (mockProvider?.key !== key) {
+    mockProvider = { key, provider: createMockProvider({ latencyMs: settings.mockLatencyMs, failEvery: settings.mockFailEvery }) };
+  }
+  return mockProvider.provider;
+};
+
+export const getProvider = (settings: OrionSettings): OrionProvider => {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings.providerBaseUrl, settings.providerApiKey || undefined);
+    case 'mock':
+      return getMockProvider(settings);
+    case 'gemini':
+    default:
+      return geminiProvider;
+  }
+};
+
+// Hosts an OpenAI-compatible server can run on without any network connection
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+// Whether the configured provider is out of reach while the device is offline
+export const providerRequiresNetwork = (settings: OrionSettings): boolean => {
+  switch (settings.provider) {
+    case 'mock':
+      return false;
+    case 'openai-compatible':
+      try {
+        return !LOCAL_HOSTNAMES.includes(new URL(settings.providerBaseUrl).hostname);
+      } catch {
+        return true;
+      }
+    case 'gemini':
+    default:
+      return true;
+  }
+};
+
+export { createMockProvider, createOpenAICompatibleProvider, geminiProvider };
@@ -0,0 +1,69 @@
+import { OrionProvider, OrionRequest } from "../../types";
+import { ProviderError } from "../errors";
+
+// Deterministic offline backend for development and demos.
+// The model name selects the reply strategy: 'echo' repeats the prompt back,
+// 'scripted' cycles through a fixed list of replies.
+
+export interface MockProviderOptions {
+  script?: string[];
+  latencyMs?: number;      // Delay before the first chunk
+  chunkDelayMs?: number;   // Delay between chunks
+  failEvery?: number;      // Throw on every Nth request (0 disables)
+}
+
+const DEFAULT_SCRIPT = [
+  "Mock cognition layer engaged. No external model is being contacted.",
+  "Acknowledged. This is a scripted response from the offline backend.",
+  "Simulation nominal. Switch the provider in CONFIGURATION to reach a real model.",
+];
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve) => {
+  if (ms <= 0 || signal?.aborted) return resolve();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+export const createMockProvider = (options: MockProviderOptions = {}): OrionProvider => {
+  const {
+    script = DEFAULT_SCRIPT,
+    latencyMs = 400,
+    chunkDelayMs = 40,
+    failEvery = 0
+  } = options;
+  let requestCount = 0;
+
+  const composeReply = (request: OrionRequest): string => {
+    if (request.model === 'scripted') {
+      return script[(requestCount - 1) % script.length];
+    }
+    const attachmentNote = request.attachments.length > 0
+      ? ` [${request.attachments.map(a => a.name).join(', ')} received]`
+      : '';
+    return `Echo: ${request.prompt}${attachmentNote}`;
+  };
+
+  return {
+    id: 'mock',
+
+    async *stream(request: OrionRequest) {
+      requestCount++;
+      await wait(latencyMs, request.signal);
+
+      if (failEvery > 0 && requestCount % failEvery === 0) {
+        throw new ProviderError("Simulated provider failure.", true);
+      }
+
+      // Emit word by word so the streaming UI behaves like a real backend
+      const words = composeReply(request).split(/(?<=\s)/);
+      for (const word of words) {
+        if (request.signal?.aborted) return;
+        yield { text: word };
+        await wait(chunkDelayMs, request.signal);
+      }
+    }
+  };
+};
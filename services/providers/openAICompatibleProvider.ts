@@ -0,0 +1,191 @@
+import { Attachment, OrionProvider, OrionRequest, Sender, ToolCallRequest } from "../../types";
+import { ProviderError, RateLimitError } from "../errors";
+import { decodeTextAttachment, isImageAttachment, isTextAttachment, toDataUrl } from "../attachments";
+
+// Talks to any server exposing the OpenAI chat completions API
+// (llama.cpp server, Ollama, LM Studio, vLLM, ...).
+
+// --- Wire format (the subset of the chat completions API used here) ---
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type ChatMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user' | 'assistant'; content: string | ChatContentPart[] }
+  | { role: 'assistant'; content: null; tool_calls: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+// Streamed deltas carry tool calls in pieces: the id and name come once, the arguments in fragments
+interface ChatToolCallFragment {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null; tool_calls?: ChatToolCallFragment[] } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+// Images go out as image_url parts; text documents are inlined as text.
+// The chat completions API has no generic document part, so PDFs are noted but not sent.
+const toContent = (text: string, attachments: Attachment[] = []): string | ChatContentPart[] => {
+  if (attachments.length === 0) return text;
+
+  return [
+    { type: 'text', text },
+    ...attachments.map((attachment): ChatContentPart => {
+      if (isImageAttachment(attachment)) {
+        return { type: 'image_url', image_url: { url: toDataUrl(attachment) } };
+      }
+      if (isTextAttachment(attachment)) {
+        return { type: 'text', text: `--- ${attachment.name} ---\n${decodeTextAttachment(attachment)}` };
+      }
+      return { type: 'text', text: `[Attachment "${attachment.name}" (${attachment.mimeType}) not supported by this provider]` };
+    })
+  ];
+};
+
+const buildMessages = (request: OrionRequest): ChatMessage[] => {
+  const messages: ChatMessage[] = [{ role: 'system', content: request.systemInstruction }];
+
+  request.history.forEach(msg => {
+    messages.push({
+      role: msg.sender === Sender.User ? 'user' : 'assistant',
+      content: toContent(msg.text, msg.attachments)
+    });
+  });
+
+  messages.push({ role: 'user', content: toContent(request.prompt, request.attachments) });
+
+  // Earlier steps of the tool loop: the assistant's calls, then one tool message per result
+  request.toolRounds?.forEach(round => {
+    messages.push({
+      role: 'assistant',
+      content: null,
+      tool_calls: round.map(call => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: JSON.stringify(call.args) }
+      }))
+    });
+    round.forEach(call => {
+      messages.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: JSON.stringify(call.error !== undefined ? { error: call.error } : call.result ?? null)
+      });
+    });
+  });
+
+  return messages;
+};
+
+// Models sometimes stream arguments that aren't valid JSON; the call is still
+// reported so the tool loop can answer it with an error instead of aborting the reply
+const toToolCallRequest = (call: { id: string; name: string; arguments: string }): ToolCallRequest => {
+  const id = call.id || crypto.randomUUID();
+  if (!call.arguments) return { id, name: call.name, args: {} };
+  try {
+    const args: unknown = JSON.parse(call.arguments);
+    if (args && typeof args === 'object' && !Array.isArray(args)) {
+      return { id, name: call.name, args: args as Record<string, unknown> };
+    }
+    return { id, name: call.name, args: {}, argumentsError: 'Invalid arguments: expected a JSON object.' };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { id, name: call.name, args: {}, argumentsError: `Invalid arguments: ${reason}` };
+  }
+};
+
+export const createOpenAICompatibleProvider = (baseUrl: string, apiKey?: string): OrionProvider => ({
+  id: 'openai-compatible',
+
+  async *stream(request: OrionRequest) {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: buildMessages(request),
+        temperature: request.temperature,
+        stream: true,
+        // Asks for a final chunk carrying token usage; servers that don't support it ignore this
+        stream_options: { include_usage: true },
+        tools: request.tools?.length
+          ? request.tools.map(tool => ({
+              type: 'function',
+              function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+            }))
+          : undefined
+      }),
+      signal: request.signal
+    });
+
+    if (response.status === 429) {
+      throw new RateLimitError(`Provider rate limit reached (HTTP 429).`);
+    }
+    if (!response.ok || !response.body) {
+      throw new ProviderError(`Provider responded with HTTP ${response.status}.`, response.status >= 500);
+    }
+
+    // Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    // Tool call deltas arrive in fragments keyed by index; arguments are streamed as partial JSON
+    const pendingCalls: { id: string; name: string; arguments: string }[] = [];
+
+    const flushToolCalls = () => {
+      if (pendingCalls.length === 0) return null;
+      return { toolCalls: pendingCalls.map(toToolCallRequest) };
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') {
+          const calls = flushToolCalls();
+          if (calls) yield calls;
+          return;
+        }
+
+        const parsed: ChatCompletionChunk = JSON.parse(payload);
+        const delta = parsed.choices?.[0]?.delta;
+        if (delta?.content) yield { text: delta.content };
+        if (parsed.usage) {
+          yield { usage: { promptTokens: parsed.usage.prompt_tokens ?? 0, responseTokens: parsed.usage.completion_tokens ?? 0 } };
+        }
+        delta?.tool_calls?.forEach(fragment => {
+          const call = pendingCalls[fragment.index] ??= { id: '', name: '', arguments: '' };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        });
+      }
+    }
+
+    const calls = flushToolCalls();
+    if (calls) yield calls;
+  }
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { SchedulerClock, ScheduledTask } from '../types';
+import { createTaskScheduler, nextOccurrence } from './scheduler';
+
+const MINUTE = 60000;
+
+// Timers only run when the test advances the clock
+const createFakeClock = (start = Date.UTC(2026, 0, 1, 9, 0)) => {
+  let now = start;
+  let timers: { at: number; callback: () => void }[] = [];
+
+  const clock: SchedulerClock = {
+    now: () => now,
+    setTimer: (callback, delayMs) => {
+      const timer = { at: now + delayMs, callback };
+      timers.push(timer);
+      return () => { timers = timers.filter(t => t !== timer); };
+    },
+  };
+
+  const advance = (ms: number) => {
+    const until = now + ms;
+    for (;;) {
+      const next = timers.filter(t => t.at <= until).sort((a, b) => a.at - b.at)[0];
+      if (!next) break;
+      timers = timers.filter(t => t !== next);
+      now = next.at;
+      next.callback();
+    }
+    now = until;
+  };
+
+  return { clock, advance, pendingTimers: () => timers.length };
+};
+
+describe('createTaskScheduler', () => {
+  it('fires a one-off task at its due time and forgets it', () => {
+    const { clock, advance } = createFakeClock();
+    const fired: string[] = [];
+    const scheduler = createTaskScheduler({ clock, onFire: task => fired.push(task.label) });
+
+    scheduler.schedule({ label: 'Stretch', dueAt: clock.now() + 5 * MINUTE });
+    advance(5 * MINUTE - 1);
+    expect(fired).toEqual([]);
+
+    advance(1);
+    expect(fired).toEqual(['Stretch']);
+    expect(scheduler.list()).toEqual([]);
+    expect(scheduler.recent().map(task => task.label)).toEqual(['Stretch']);
+  });
+
+  it('fires tasks in due order regardless of scheduling order', () => {
+    const { clock, advance } = createFakeClock();
+    const fired: string[] = [];
+    const scheduler = createTaskScheduler({ clock, onFire: task => fired.push(task.label) });
+
+    scheduler.schedule({ label: 'later', dueAt: clock.now() + 10 * MINUTE });
+    scheduler.schedule({ label: 'sooner', dueAt: clock.now() + 2 * MINUTE });
+    advance(10 * MINUTE);
+
+    expect(fired).toEqual(['sooner', 'later']);
+  });
+
+  it('re-arms recurring tasks for their next occurrence', () => {
+    const { clock, advance } = createFakeClock();
+    let count = 0;
+    const scheduler = createTaskScheduler({ clock, onFire: () => count++ });
+
+    const task = scheduler.schedule({ label: 'Water', dueAt: clock.now() + MINUTE, recurrence: { unit: 'minute', interval: 15 } });
+    advance(MINUTE + 30 * MINUTE);
+
+    expect(count).toBe(3);
+    expect(scheduler.list()[0].dueAt).toBe(task.dueAt + 45 * MINUTE);
+  });
+
+  it('fires overdue tasks once on start and skips recurring ones ahead', () => {
+    const { clock, advance } = createFakeClock();
+    const overdue: ScheduledTask = {
+      id: 'a', label: 'Hourly', dueAt: clock.now() - 150 * MINUTE, recurrence: { unit: 'hour', interval: 1 }, createdAt: 0,
+    };
+    let count = 0;
+    const scheduler = createTaskScheduler({ tasks: [overdue], clock, onFire: () => count++ });
+
+    advance(0);
+    expect(count).toBe(1);
+    expect(scheduler.list()[0].dueAt).toBe(clock.now() + 30 * MINUTE);
+  });
+
+  it('snoozes a task that already fired', () => {
+    const { clock, advance } = createFakeClock();
+    const fired: string[] = [];
+    const scheduler = createTaskScheduler({ clock, onFire: task => fired.push(task.label) });
+
+    const task = scheduler.schedule({ label: 'Call back', dueAt: clock.now() + MINUTE });
+    advance(MINUTE);
+    expect(scheduler.snooze(task.id, 10 * MINUTE)?.dueAt).toBe(clock.now() + 10 * MINUTE);
+
+    advance(10 * MINUTE);
+    expect(fired).toEqual(['Call back', 'Call back']);
+  });
+
+  it('postpones only the snoozed occurrence of a recurring task', () => {
+    const { clock, advance } = createFakeClock();
+    const scheduler = createTaskScheduler({ clock, onFire: () => {} });
+
+    const task = scheduler.schedule({ label: 'Check', dueAt: clock.now() + MINUTE, recurrence: { unit: 'hour', interval: 1 } });
+    scheduler.snooze(task.id, 5 * MINUTE);
+    advance(5 * MINUTE);
+
+    const [next] = scheduler.list();
+    expect(next.snoozedUntil).toBeUndefined();
+    expect(next.dueAt).toBe(task.dueAt + 60 * MINUTE);
+  });
+
+  it('stops firing after cancel and dispose', () => {
+    const { clock, advance, pendingTimers } = createFakeClock();
+    let count = 0;
+    const scheduler = createTaskScheduler({ clock, onFire: () => count++ });
+
+    const task = scheduler.schedule({ label: 'Cancelled', dueAt: clock.now() + MINUTE });
+    expect(scheduler.cancel(task.id)).toBe(true);
+    scheduler.schedule({ label: 'Disposed', dueAt: clock.now() + MINUTE });
+    scheduler.dispose();
+    advance(2 * MINUTE);
+
+    expect(count).toBe(0);
+    expect(pendingTimers()).toBe(0);
+  });
+
+  it('reports every change for persistence', () => {
+    const { clock } = createFakeClock();
+    const snapshots: number[] = [];
+    const scheduler = createTaskScheduler({ clock, onFire: () => {}, onChange: tasks => snapshots.push(tasks.length) });
+
+    const task = scheduler.schedule({ label: 'One', dueAt: clock.now() + MINUTE });
+    scheduler.schedule({ label: 'Two', dueAt: clock.now() + MINUTE });
+    scheduler.cancel(task.id);
+
+    expect(snapshots).toEqual([1, 2, 1]);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('returns the due time while it is still ahead', () => {
+    expect(nextOccurrence(1000, { unit: 'minute', interval: 1 }, 500)).toBe(1000);
+  });
+
+  it('keeps the wall-clock time for daily tasks', () => {
+    const dueAt = new Date(2026, 2, 1, 8, 30).getTime();
+    const next = new Date(nextOccurrence(dueAt, { unit: 'day', interval: 1 }, new Date(2026, 2, 10, 12).getTime()));
+    expect([next.getDate(), next.getHours(), next.getMinutes()]).toEqual([11, 8, 30]);
+  });
+});
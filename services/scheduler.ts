@@ -0,0 +1,165 @@
+import { NewTask, RecurrenceUnit, ScheduledTask, SchedulerClock, TaskRecurrence, TaskScheduler } from "../types";
+
+const TASKS_KEY = 'orion.tasks';
+
+// Browsers overflow setTimeout past ~24.8 days; longer waits are re-armed in steps
+const MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_LIMIT = 5;
+
+const UNIT_MS: Record<'minute' | 'hour', number> = { minute: 60000, hour: 3600000 };
+
+export const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimer: (callback, delayMs) => {
+    const timer = setTimeout(callback, delayMs);
+    return () => clearTimeout(timer);
+  },
+};
+
+/** When a task fires next: its snooze if it has one, otherwise its due time. */
+export const firesAt = (task: ScheduledTask): number => task.snoozedUntil ?? task.dueAt;
+
+/** First occurrence of `recurrence`, counted from `dueAt`, that falls strictly after `after`. */
+export const nextOccurrence = (dueAt: number, recurrence: TaskRecurrence, after: number): number => {
+  const interval = Math.max(1, Math.floor(recurrence.interval));
+
+  if (recurrence.unit === 'minute' || recurrence.unit === 'hour') {
+    const step = interval * UNIT_MS[recurrence.unit];
+    return after < dueAt ? dueAt : dueAt + (Math.floor((after - dueAt) / step) + 1) * step;
+  }
+
+  // Calendar units: step the local date so the wall-clock time survives DST changes
+  const days = interval * (recurrence.unit === 'week' ? 7 : 1);
+  const next = new Date(dueAt);
+  while (next.getTime() <= after) {
+    next.setDate(next.getDate() + days);
+  }
+  return next.getTime();
+};
+
+const UNIT_LABELS: Record<RecurrenceUnit, string> = { minute: 'minute', hour: 'hour', day: 'day', week: 'week' };
+
+/** "every day", "every 2 hours" */
+export const describeRecurrence = (recurrence: TaskRecurrence): string =>
+  recurrence.interval === 1
+    ? `every ${UNIT_LABELS[recurrence.unit]}`
+    : `every ${recurrence.interval} ${UNIT_LABELS[recurrence.unit]}s`;
+
+const sortTasks = (tasks: ScheduledTask[]) => [...tasks].sort((a, b) => firesAt(a) - firesAt(b));
+
+interface TaskSchedulerOptions {
+  tasks?: ScheduledTask[];
+  clock?: SchedulerClock;
+  onFire: (task: ScheduledTask) => void;
+  onChange?: (tasks: ScheduledTask[]) => void; // Pending tasks after every change, for persistence
+}
+
+/**
+ * Keeps one timer armed for the soonest task. Tasks already overdue when the
+ * scheduler starts (e.g. the app was closed) fire once straight away; recurring
+ * ones then skip ahead to their next future occurrence.
+ */
+export const createTaskScheduler = ({ tasks = [], clock = systemClock, onFire, onChange }: TaskSchedulerOptions): TaskScheduler => {
+  let pending = sortTasks(tasks);
+  let recent: ScheduledTask[] = [];
+  let cancelTimer: (() => void) | null = null;
+  let disposed = false;
+
+  const arm = () => {
+    cancelTimer?.();
+    cancelTimer = null;
+    if (disposed || pending.length === 0) return;
+    const delay = Math.min(Math.max(firesAt(pending[0]) - clock.now(), 0), MAX_TIMER_DELAY_MS);
+    cancelTimer = clock.setTimer(fireDue, delay);
+  };
+
+  const commit = (next: ScheduledTask[]) => {
+    pending = sortTasks(next);
+    onChange?.(pending);
+    arm();
+  };
+
+  function fireDue() {
+    cancelTimer = null;
+    const now = clock.now();
+    const due = pending.filter(task => firesAt(task) <= now);
+    if (due.length === 0) {
+      arm();
+      return;
+    }
+
+    // Settle the schedule before notifying, so onFire may schedule or snooze freely
+    const rescheduled = due.flatMap(task => task.recurrence
+      ? [{ ...task, dueAt: nextOccurrence(task.dueAt, task.recurrence, now), snoozedUntil: undefined }]
+      : []);
+    recent = [...due.filter(task => !task.recurrence).reverse(), ...recent].slice(0, RECENT_LIMIT);
+    commit([...pending.filter(task => firesAt(task) > now), ...rescheduled]);
+    due.forEach(onFire);
+  }
+
+  arm();
+
+  return {
+    list: () => [...pending],
+    recent: () => [...recent],
+
+    schedule: ({ label, dueAt, recurrence }) => {
+      const task: ScheduledTask = {
+        id: crypto.randomUUID(),
+        label,
+        dueAt,
+        recurrence: recurrence ? { unit: recurrence.unit, interval: Math.max(1, Math.floor(recurrence.interval)) } : undefined,
+        createdAt: clock.now(),
+      };
+      commit([...pending, task]);
+      return task;
+    },
+
+    snooze: (id, delayMs) => {
+      const snoozedUntil = clock.now() + delayMs;
+      const existing = pending.find(task => task.id === id);
+      if (existing) {
+        // One-off tasks simply move; recurring ones postpone this occurrence only
+        const snoozed = existing.recurrence ? { ...existing, snoozedUntil } : { ...existing, dueAt: snoozedUntil };
+        commit(pending.map(task => task.id === id ? snoozed : task));
+        return snoozed;
+      }
+
+      const fired = recent.find(task => task.id === id);
+      if (!fired) return undefined;
+      const revived = { ...fired, dueAt: snoozedUntil };
+      recent = recent.filter(task => task.id !== id);
+      commit([...pending, revived]);
+      return revived;
+    },
+
+    cancel: (id) => {
+      if (!pending.some(task => task.id === id)) return false;
+      commit(pending.filter(task => task.id !== id));
+      return true;
+    },
+
+    dispose: () => {
+      disposed = true;
+      cancelTimer?.();
+      cancelTimer = null;
+    },
+  };
+};
+
+export const loadTasks = (): ScheduledTask[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TASKS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveTasks = (tasks: ScheduledTask[]): void => {
+  try {
+    localStorage.setItem(TASKS_KEY, JSON.stringify(tasks));
+  } catch (error) {
+    console.error("Scheduled tasks could not be saved:", error);
+  }
+};
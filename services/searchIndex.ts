@@ -0,0 +1,106 @@
+import { ConversationSession, SearchDocument, SearchFilters, SearchIndex, SnippetPart } from "../types";
+
+const SNIPPET_RADIUS = 60; // Characters of context on each side of the first match
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+// Query terms shorter than this only match whole words, so "a" doesn't match everything
+const MIN_PREFIX_LENGTH = 2;
+
+/**
+ * Inverted index over the message text of the given sessions' active branches.
+ * Every query term must match (the last one as a prefix, so results update
+ * while typing); results rank by term frequency, then recency.
+ */
+export const buildSearchIndex = (sessions: ConversationSession[]): SearchIndex => {
+  const documents: SearchDocument[] = [];
+  const postings = new Map<string, Map<number, number>>(); // term -> document index -> occurrences
+
+  sessions.forEach(session => {
+    session.messages.forEach(msg => {
+      if (msg.error || !msg.text.trim()) return;
+      const docIndex = documents.push({
+        sessionId: session.id,
+        sessionTitle: session.title,
+        messageId: msg.id,
+        sender: msg.sender,
+        timestamp: msg.timestamp,
+        hasAttachments: Boolean(msg.attachments?.length),
+        text: msg.text
+      }) - 1;
+      tokenize(msg.text).forEach(term => {
+        const counts = postings.get(term) ?? new Map<number, number>();
+        counts.set(docIndex, (counts.get(docIndex) ?? 0) + 1);
+        postings.set(term, counts);
+      });
+    });
+  });
+
+  const terms = Array.from(postings.keys());
+
+  // Occurrences per document for one query term, merging all indexed terms it matches
+  const lookup = (queryTerm: string, asPrefix: boolean): Map<number, number> => {
+    if (!asPrefix || queryTerm.length < MIN_PREFIX_LENGTH) return postings.get(queryTerm) ?? new Map();
+    const merged = new Map<number, number>();
+    terms.filter(term => term.startsWith(queryTerm)).forEach(term => {
+      postings.get(term)!.forEach((count, docIndex) => merged.set(docIndex, (merged.get(docIndex) ?? 0) + count));
+    });
+    return merged;
+  };
+
+  const matchesFilters = (doc: SearchDocument, filters: SearchFilters): boolean =>
+    (!filters.sender || doc.sender === filters.sender)
+    && (!filters.from || doc.timestamp >= filters.from)
+    && (!filters.to || doc.timestamp < filters.to)
+    && (!filters.hasAttachments || doc.hasAttachments);
+
+  return {
+    size: documents.length,
+    search(query, filters = {}, limit = 50) {
+      const queryTerms = tokenize(query);
+      if (queryTerms.length === 0) return [];
+
+      let scores: Map<number, number> | null = null;
+      queryTerms.forEach((term, i) => {
+        const matches = lookup(term, i === queryTerms.length - 1);
+        const next = new Map<number, number>();
+        matches.forEach((count, docIndex) => {
+          if (!scores) next.set(docIndex, count);
+          else if (scores.has(docIndex)) next.set(docIndex, scores.get(docIndex)! + count);
+        });
+        scores = next;
+      });
+
+      return Array.from((scores ?? new Map<number, number>()).entries())
+        .map(([docIndex, score]) => ({ document: documents[docIndex], score }))
+        .filter(({ document }) => matchesFilters(document, filters))
+        .sort((a, b) => b.score - a.score || b.document.timestamp.getTime() - a.document.timestamp.getTime())
+        .slice(0, limit)
+        .map(result => ({ ...result, snippet: buildSnippet(result.document.text, queryTerms) }));
+    }
+  };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** A window of text around the first match, split into highlighted and plain runs. */
+export const buildSnippet = (text: string, queryTerms: string[]): SnippetPart[] => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  // Highlight words starting with any query term
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${queryTerms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+
+  const first = pattern.exec(flat)?.index ?? 0;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, first + SNIPPET_RADIUS * 2);
+  const window = `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+
+  const parts: SnippetPart[] = [];
+  let cursor = 0;
+  for (const match of window.matchAll(pattern)) {
+    if (match.index! > cursor) parts.push({ text: window.slice(cursor, match.index), match: false });
+    parts.push({ text: match[0], match: true });
+    cursor = match.index! + match[0].length;
+  }
+  if (cursor < window.length) parts.push({ text: window.slice(cursor), match: false });
+  return parts;
+};
@@ -0,0 +1,179 @@
+import { DeviceSensor } from "../../types";
+
+// Battery Status and Network Information are not in the TypeScript DOM library
+interface BatteryManager extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+interface NetworkInformation extends EventTarget {
+  type?: string;
+  effectiveType?: string;
+  downlink?: number;
+  rtt?: number;
+  saveData?: boolean;
+}
+
+type ExtendedNavigator = Navigator & {
+  getBattery?: () => Promise<BatteryManager>;
+  connection?: NetworkInformation;
+  deviceMemory?: number;
+};
+
+const nav = navigator as ExtendedNavigator;
+
+const batterySensor: DeviceSensor = {
+  id: 'battery',
+  label: 'Power Cell',
+  description: 'Battery level and charging state.',
+  blank: { batteryLevel: null, isCharging: false },
+  isSupported: () => typeof nav.getBattery === 'function',
+  subscribe: (report) => {
+    let battery: BatteryManager | null = null;
+    let stopped = false;
+    const update = () => {
+      if (battery) report({ batteryLevel: battery.level, isCharging: battery.charging });
+    };
+
+    nav.getBattery!()
+      .then(manager => {
+        if (stopped) return;
+        battery = manager;
+        update();
+        manager.addEventListener('levelchange', update);
+        manager.addEventListener('chargingchange', update);
+      })
+      .catch(error => console.error("Battery Sensor Failure:", error));
+
+    return () => {
+      stopped = true;
+      battery?.removeEventListener('levelchange', update);
+      battery?.removeEventListener('chargingchange', update);
+    };
+  },
+};
+
+const networkSensor: DeviceSensor = {
+  id: 'network',
+  label: 'Network Link',
+  description: 'Connectivity, connection type and estimated bandwidth.',
+  blank: { connection: undefined },
+  isSupported: () => true,
+  subscribe: (report) => {
+    const update = () => {
+      const connection = nav.connection;
+      report({
+        isOnline: navigator.onLine,
+        connection: connection && {
+          type: connection.type,
+          effectiveType: connection.effectiveType,
+          downlinkMbps: connection.downlink,
+          rttMs: connection.rtt,
+          saveData: connection.saveData,
+        },
+      });
+    };
+
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    nav.connection?.addEventListener('change', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+      nav.connection?.removeEventListener('change', update);
+    };
+  },
+};
+
+const geolocationSensor: DeviceSensor = {
+  id: 'geolocation',
+  label: 'Geolocation',
+  description: 'Current position. Asks for location permission when enabled.',
+  requiresPermission: true,
+  blank: { geolocation: undefined },
+  isSupported: () => 'geolocation' in navigator,
+  subscribe: (report) => {
+    const watchId = navigator.geolocation.watchPosition(
+      position => report({
+        geolocation: {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        },
+      }),
+      error => console.error("Geolocation Sensor Failure:", error.message),
+      { maximumAge: 5 * 60000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  },
+};
+
+const visibilitySensor: DeviceSensor = {
+  id: 'visibility',
+  label: 'Page Visibility',
+  description: 'Whether ORION is in the foreground.',
+  blank: { isVisible: undefined },
+  isSupported: () => typeof document.visibilityState === 'string',
+  subscribe: (report) => {
+    const update = () => report({ isVisible: document.visibilityState === 'visible' });
+    update();
+    document.addEventListener('visibilitychange', update);
+    return () => document.removeEventListener('visibilitychange', update);
+  },
+};
+
+const localeSensor: DeviceSensor = {
+  id: 'locale',
+  label: 'Locale & Time Zone',
+  description: 'Preferred language and time zone.',
+  blank: { locale: undefined, timeZone: undefined },
+  isSupported: () => true,
+  subscribe: (report) => {
+    const update = () => report({
+      locale: navigator.language,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+    update();
+    window.addEventListener('languagechange', update);
+    return () => window.removeEventListener('languagechange', update);
+  },
+};
+
+const reducedMotionSensor: DeviceSensor = {
+  id: 'reduced-motion',
+  label: 'Motion Preference',
+  description: 'Whether the system asks for reduced motion.',
+  blank: { prefersReducedMotion: undefined },
+  isSupported: () => typeof window.matchMedia === 'function',
+  subscribe: (report) => {
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const update = () => report({ prefersReducedMotion: query.matches });
+    update();
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  },
+};
+
+const hardwareSensor: DeviceSensor = {
+  id: 'hardware',
+  label: 'Hardware Profile',
+  description: 'Approximate memory and CPU core count.',
+  blank: { hardware: undefined },
+  isSupported: () => true,
+  // Static hints: read once, nothing to unsubscribe from
+  subscribe: (report) => {
+    report({ hardware: { memoryGb: nav.deviceMemory, cpuCores: navigator.hardwareConcurrency } });
+    return () => {};
+  },
+};
+
+export const browserSensors: DeviceSensor[] = [
+  batterySensor,
+  networkSensor,
+  geolocationSensor,
+  visibilitySensor,
+  localeSensor,
+  reducedMotionSensor,
+  hardwareSensor,
+];
@@ -0,0 +1,14 @@
+import { createSensorRegistry, isSensorActive, redactPrivateReadings } from "./registry";
+import { browserSensors } from "./browserSensors";
+import { applyContextConsent } from "../privacy";
+import { DeviceContext, OrionSettings, SharedContext } from "../../types";
+
+// Default registry feeding DeviceContext. Register additional sensors here
+// (or call deviceSensors.register elsewhere at startup).
+export const deviceSensors = createSensorRegistry(browserSensors);
+
+/** The context as the model may see it, honouring the per-sensor and per-field privacy switches. */
+export const toSharedContext = (context: DeviceContext, settings: OrionSettings): SharedContext =>
+  applyContextConsent(redactPrivateReadings(deviceSensors, context, settings), settings.privacy);
+
+export { createSensorRegistry, isSensorActive };
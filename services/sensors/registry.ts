@@ -0,0 +1,29 @@
+import { DeviceContext, DeviceSensor, OrionSettings, SensorId, SensorRegistry } from "../../types";
+
+export const createSensorRegistry = (sensors: DeviceSensor[] = []): SensorRegistry => {
+  const byId = new Map<SensorId, DeviceSensor>();
+
+  const registry: SensorRegistry = {
+    register(sensor: DeviceSensor) {
+      if (byId.has(sensor.id)) {
+        throw new Error(`Sensor "${sensor.id}" is already registered.`);
+      }
+      byId.set(sensor.id, sensor);
+    },
+    get: (id: SensorId) => byId.get(id),
+    list: () => Array.from(byId.values())
+  };
+
+  sensors.forEach(registry.register);
+  return registry;
+};
+
+/** Whether a sensor should be running. Permission-gated sensors only run while shared. */
+export const isSensorActive = (sensor: DeviceSensor, sharing: Record<SensorId, boolean>): boolean =>
+  sensor.isSupported() && (!sensor.requiresPermission || sharing[sensor.id]);
+
+/** The context as the model may see it: readings of private sensors are blanked. */
+export const redactPrivateReadings = (registry: SensorRegistry, context: DeviceContext, settings: OrionSettings): DeviceContext =>
+  registry.list()
+    .filter(sensor => !settings.sensors[sensor.id])
+    .reduce((shared, sensor) => ({ ...shared, ...sensor.blank }), context);
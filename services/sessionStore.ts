@@ -0,0 +1,59 @@
+import { ConversationSession, Message, Sender } from "../types";
+import { STORES, deleteOne, getAll, getOne, putOne } from "./db";
+import { normalizeAttachment } from "./attachments";
+
+export const DEFAULT_SESSION_TITLE = 'New Session';
+
+// IndexedDB keeps Date objects through structured clone, but sessions written
+// by older builds or imported from elsewhere may carry strings. Normalize here.
+const reviveMessage = (msg: Message): Message => ({
+  ...msg,
+  timestamp: new Date(msg.timestamp),
+  attachments: msg.attachments?.map(normalizeAttachment)
+});
+
+const reviveSession = (session: ConversationSession): ConversationSession => ({
+  ...session,
+  createdAt: new Date(session.createdAt),
+  updatedAt: new Date(session.updatedAt),
+  messages: session.messages.map(reviveMessage),
+  branches: session.branches?.map(reviveMessage)
+});
+
+export const createSession = (messages: Message[] = []): ConversationSession => {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    title: DEFAULT_SESSION_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages
+  };
+};
+
+/** All stored sessions, most recently updated first. */
+export const listSessions = async (): Promise<ConversationSession[]> => {
+  const sessions = await getAll<ConversationSession>(STORES.sessions);
+  return sessions
+    .map(reviveSession)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const loadSession = async (id: string): Promise<ConversationSession | undefined> => {
+  const session = await getOne<ConversationSession>(STORES.sessions, id);
+  return session ? reviveSession(session) : undefined;
+};
+
+export const saveSession = (session: ConversationSession): Promise<void> =>
+  putOne(STORES.sessions, session);
+
+export const deleteSession = (id: string): Promise<void> =>
+  deleteOne(STORES.sessions, id);
+
+/** Derive a title from the first user prompt, for sessions never renamed. */
+export const deriveSessionTitle = (messages: Message[]): string => {
+  const firstPrompt = messages.find(m => m.sender === Sender.User && m.text.trim());
+  if (!firstPrompt) return DEFAULT_SESSION_TITLE;
+  const text = firstPrompt.text.trim().replace(/\s+/g, ' ');
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
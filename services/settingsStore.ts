@@ -0,0 +1,131 @@
+import { ModelPrice, OrionSettings, PersonalityProfile } from "../types";
+import { DEFAULT_MODEL_PRICES, DEFAULT_SETTINGS } from "../constants";
+import { isRecord } from "./guards";
+import { parseRedactionPattern } from "./privacy";
+import { parseProfileFields } from "./profiles";
+import { parseTheme } from "./themes";
+
+const STORAGE_KEY = 'orion.settings';
+
+// Bump when the stored shape changes and add a migration from the previous version.
+export const SETTINGS_SCHEMA_VERSION = 9;
+
+type SettingsPayload = Record<string, unknown>;
+
+interface StoredSettings {
+  version: number;
+  settings: SettingsPayload;
+}
+
+// MIGRATIONS[n] upgrades a version n payload to version n + 1
+const MIGRATIONS: Record<number, (settings: SettingsPayload) => SettingsPayload> = {
+  // v1: unversioned object with a fixed personality union. v2 adds custom
+  // profiles; the old union values are still valid built-in profile ids.
+  1: (settings) => ({ ...settings, customProfiles: [] }),
+  // v3 adds per-rule switches for proactive triggers
+  2: (settings) => ({ ...settings, triggers: {} }),
+  // v4 adds per-sensor sharing switches; loadSettings fills in the defaults
+  3: (settings) => settings,
+  // v5 adds themes; the default theme matches the previously fixed palette
+  4: (settings) => ({ ...settings, theme: 'orion', customThemes: [] }),
+  // v6 adds the telemetry price table and daily token budget
+  5: (settings) => ({ ...settings, modelPrices: DEFAULT_MODEL_PRICES, dailyTokenBudget: 0 }),
+  // v7 adds privacy controls; loadSettings fills in the defaults
+  6: (settings) => settings,
+  // v8 adds an API key for the OpenAI-compatible provider; loadSettings fills in the default
+  7: (settings) => settings,
+  // v9 adds simulated latency and failures for the mock provider; loadSettings fills in the defaults
+  8: (settings) => settings,
+};
+
+const migrate = (stored: StoredSettings): SettingsPayload => {
+  let { version, settings } = stored;
+  while (version < SETTINGS_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No settings migration from version ${version}.`);
+    settings = step(settings);
+    version++;
+  }
+  return settings;
+};
+
+// Keeps only known fields whose JSON type matches the default, so a hand-edited
+// or corrupted entry can't put a string where the app expects a number
+const sanitize = (settings: SettingsPayload): Partial<OrionSettings> =>
+  Object.fromEntries(Object.entries(settings).filter(([key, value]) => {
+    if (!(key in DEFAULT_SETTINGS)) return false;
+    const fallback: unknown = DEFAULT_SETTINGS[key as keyof OrionSettings];
+    return typeof value === typeof fallback && Array.isArray(value) === Array.isArray(fallback) && (value === null) === (fallback === null);
+  }));
+
+// Entries of a stored list that fail their guard are dropped; the rest still load
+const keepValid = <T>(list: unknown[] | undefined, parse: (raw: unknown, index: number) => T): T[] | undefined =>
+  list?.flatMap((raw, index) => {
+    try {
+      return [parse(raw, index)];
+    } catch (error) {
+      console.error("Stored setting entry dropped:", error);
+      return [];
+    }
+  });
+
+const parseStoredProfile = (raw: unknown, index: number): PersonalityProfile => {
+  if (!isRecord(raw) || typeof raw.id !== 'string') throw new Error(`Profile #${index + 1} has no id.`);
+  return { id: raw.id, ...parseProfileFields(raw, index) };
+};
+
+const isModelPrice = (value: unknown): value is ModelPrice =>
+  isRecord(value) && typeof value.input === 'number' && typeof value.output === 'number';
+
+/** Stored settings, migrated to the current schema and merged over the defaults. */
+export const loadSettings = (): OrionSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed)) throw new Error("Stored settings are not an object.");
+
+    // Builds before versioning stored the settings object directly
+    const stored: StoredSettings = typeof parsed.version === 'number' && isRecord(parsed.settings)
+      ? { version: parsed.version, settings: parsed.settings }
+      : { version: 1, settings: parsed };
+
+    if (stored.version > SETTINGS_SCHEMA_VERSION) {
+      throw new Error(`Settings were saved by a newer version (${stored.version}).`);
+    }
+
+    const settings = sanitize(migrate(stored));
+    const privacy: Partial<OrionSettings['privacy']> = isRecord(settings.privacy) ? settings.privacy : {};
+    return {
+      ...DEFAULT_SETTINGS,
+      ...settings,
+      customProfiles: keepValid(settings.customProfiles, parseStoredProfile) ?? DEFAULT_SETTINGS.customProfiles,
+      customThemes: keepValid(settings.customThemes, parseTheme) ?? DEFAULT_SETTINGS.customThemes,
+      modelPrices: settings.modelPrices
+        ? Object.fromEntries(Object.entries(settings.modelPrices).filter(([, price]) => isModelPrice(price)))
+        : DEFAULT_SETTINGS.modelPrices,
+      permissions: { ...DEFAULT_SETTINGS.permissions, ...settings.permissions },
+      sensors: { ...DEFAULT_SETTINGS.sensors, ...settings.sensors },
+      privacy: {
+        ...DEFAULT_SETTINGS.privacy,
+        ...privacy,
+        customPatterns: keepValid(Array.isArray(privacy.customPatterns) ? privacy.customPatterns : undefined, parseRedactionPattern)
+          ?? DEFAULT_SETTINGS.privacy.customPatterns,
+        sharedFields: { ...DEFAULT_SETTINGS.privacy.sharedFields, ...privacy.sharedFields },
+        redact: { ...DEFAULT_SETTINGS.privacy.redact, ...privacy.redact }
+      }
+    };
+  } catch (error) {
+    console.error("Settings could not be restored:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: OrionSettings): void => {
+  try {
+    const stored = { version: SETTINGS_SCHEMA_VERSION, settings };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error("Settings could not be saved:", error);
+  }
+};
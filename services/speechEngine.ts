@@ -0,0 +1,132 @@
+import { SpeechToTextEngine, SpeechToTextHandlers, TextToSpeechEngine } from "../types";
+
+// Web Speech API implementations of the voice engine interfaces.
+// Recognition is still vendor-prefixed in Chromium and missing from the TS DOM lib.
+
+interface SpeechRecognitionEvent {
+  results: ArrayLike<{ isFinal: boolean; 0: { transcript: string } }>;
+}
+
+interface SpeechRecognitionErrorEvent {
+  error: string; // e.g. 'no-speech', 'aborted', 'not-allowed'
+}
+
+interface SpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechWindow = Window & {
+  SpeechRecognition?: new () => SpeechRecognition;
+  webkitSpeechRecognition?: new () => SpeechRecognition;
+};
+
+export const createWebSpeechRecognizer = (lang: string = navigator.language): SpeechToTextEngine => {
+  const speechWindow = window as SpeechWindow;
+  const Recognition = speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+  let recognition: SpeechRecognition | null = null;
+
+  return {
+    isSupported: Boolean(Recognition),
+
+    start(handlers: SpeechToTextHandlers) {
+      if (!Recognition) {
+        handlers.onError("Speech recognition is not supported in this browser.");
+        return;
+      }
+      recognition?.abort();
+      const current = new Recognition();
+      recognition = current;
+      current.lang = lang;
+      current.continuous = true;
+      current.interimResults = true;
+
+      current.onresult = (event) => {
+        let transcript = '';
+        let isFinal = true;
+        for (let i = 0; i < event.results.length; i++) {
+          transcript += event.results[i][0].transcript;
+          isFinal = event.results[i].isFinal;
+        }
+        handlers.onResult(transcript.trim(), isFinal);
+      };
+      current.onerror = (event) => {
+        // "no-speech" and "aborted" are routine in hands-free mode
+        if (event.error !== 'no-speech' && event.error !== 'aborted') {
+          handlers.onError(event.error);
+        }
+      };
+      current.onend = () => {
+        recognition = null;
+        handlers.onEnd();
+      };
+      current.start();
+    },
+
+    stop() {
+      recognition?.stop();
+    }
+  };
+};
+
+// How quickly the estimated speech level falls back after each word
+const WORD_DECAY_MS = 180;
+
+export const createWebSpeechSynthesizer = (): TextToSpeechEngine => {
+  const synth = typeof window !== 'undefined' ? window.speechSynthesis : undefined;
+  // speechSynthesis plays outside the page's audio graph, so there is nothing to
+  // analyse; word boundary events drive an estimated envelope instead.
+  let lastWordAt = 0;
+  let speaking = false;
+
+  return {
+    isSupported: Boolean(synth),
+
+    outputLevel: {
+      start: async () => {},
+      stop: () => {},
+      getLevel: () => speaking
+        ? 0.35 + 0.65 * Math.exp(-(performance.now() - lastWordAt) / WORD_DECAY_MS)
+        : 0,
+    },
+
+    speak(text: string, onEnd: () => void) {
+      if (!synth) {
+        onEnd();
+        return;
+      }
+      synth.cancel();
+      const utterance = new SpeechSynthesisUtterance(text);
+      const finish = () => {
+        speaking = false;
+        onEnd();
+      };
+      utterance.onstart = () => { speaking = true; };
+      utterance.onboundary = () => { lastWordAt = performance.now(); };
+      utterance.onend = finish;
+      utterance.onerror = finish;
+      synth.speak(utterance);
+    },
+
+    cancel() {
+      speaking = false;
+      synth?.cancel();
+    }
+  };
+};
+
+// Markdown symbols read aloud sound like noise; keep only the words
+export const toSpeakableText = (markdown: string): string =>
+  markdown
+    .replace(/```[\s\S]*?```/g, ' code block omitted. ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`#>~|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
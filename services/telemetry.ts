@@ -0,0 +1,93 @@
+import { ModelPrice, TelemetryRecord } from "../types";
+import { STORES, clearStore, deleteOne, getAll, putOne } from "./db";
+
+// Rolling history: the newest records within the retention window are kept; the rest is pruned on read
+const MAX_TELEMETRY_RECORDS = 2000;
+const RETENTION_DAYS = 90;
+
+type TelemetryListener = (record: TelemetryRecord) => void;
+const listeners = new Set<TelemetryListener>();
+
+export const recordTelemetry = async (record: Omit<TelemetryRecord, 'id'>): Promise<void> => {
+  const stored: TelemetryRecord = { ...record, id: crypto.randomUUID() };
+  await putOne<TelemetryRecord>(STORES.telemetry, stored);
+  listeners.forEach(listener => listener(stored));
+};
+
+/** Be told about every record as it is stored. Returns the unsubscribe function. */
+export const subscribeTelemetry = (listener: TelemetryListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+/** Most recent calls first. */
+export const listTelemetry = async (): Promise<TelemetryRecord[]> => {
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const records = (await getAll<TelemetryRecord>(STORES.telemetry))
+    .map(record => ({ ...record, startedAt: new Date(record.startedAt) }))
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+  const kept = records.filter((record, index) => index < MAX_TELEMETRY_RECORDS && record.startedAt.getTime() >= cutoff);
+  const expired = records.filter(record => !kept.includes(record));
+  await Promise.all(expired.map(record => deleteOne(STORES.telemetry, record.id)));
+  return kept;
+};
+
+export const clearTelemetry = (): Promise<void> => clearStore(STORES.telemetry);
+
+// --- Aggregation ---
+
+/** Local calendar day, e.g. "2025-03-01", for grouping and the daily budget. */
+export const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Estimated USD for one record; null when its model has no price. */
+export const estimateCost = (record: TelemetryRecord, prices: Record<string, ModelPrice>): number | null => {
+  const price = prices[record.model];
+  if (!price) return null;
+  return (record.promptTokens * price.input + record.responseTokens * price.output) / 1_000_000;
+};
+
+/** Nearest-rank percentile (0-100) of `values`; null for an empty list. */
+export const percentile = (values: number[], p: number): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+};
+
+export interface TelemetryTotals {
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  responseTokens: number;
+  cost: number; // USD, priced models only
+  unpricedCalls: number;
+}
+
+export const summarizeTelemetry = (records: TelemetryRecord[], prices: Record<string, ModelPrice>): TelemetryTotals =>
+  records.reduce<TelemetryTotals>((totals, record) => {
+    const cost = estimateCost(record, prices);
+    return {
+      calls: totals.calls + 1,
+      errors: totals.errors + (record.outcome === 'error' ? 1 : 0),
+      promptTokens: totals.promptTokens + record.promptTokens,
+      responseTokens: totals.responseTokens + record.responseTokens,
+      cost: totals.cost + (cost ?? 0),
+      unpricedCalls: totals.unpricedCalls + (cost === null ? 1 : 0),
+    };
+  }, { calls: 0, errors: 0, promptTokens: 0, responseTokens: 0, cost: 0, unpricedCalls: 0 });
+
+/** Records grouped by `keyOf`, in first-seen order (newest first for listTelemetry output). */
+export const groupTelemetry = (records: TelemetryRecord[], keyOf: (record: TelemetryRecord) => string): Map<string, TelemetryRecord[]> => {
+  const groups = new Map<string, TelemetryRecord[]>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+  return groups;
+};
+
+export const tokensOnDay = (records: TelemetryRecord[], day: string): number =>
+  records
+    .filter(record => toDayKey(record.startedAt) === day)
+    .reduce((sum, record) => sum + record.promptTokens + record.responseTokens, 0);
@@ -0,0 +1,63 @@
+import { OrionSettings, OrionState, OrionTheme, ThemeColor } from "../types";
+import { BUILT_IN_THEMES } from "../constants";
+import { isRecord } from "./guards";
+
+export const THEME_COLORS: ThemeColor[] = ['base', 'surface', 'highlight', 'accent', 'success', 'warning', 'danger'];
+
+export const getAllThemes = (settings: OrionSettings): OrionTheme[] =>
+  [...BUILT_IN_THEMES, ...settings.customThemes];
+
+/** Active theme, falling back to the default if the id is stale. */
+export const getActiveTheme = (settings: OrionSettings): OrionTheme =>
+  getAllThemes(settings).find(t => t.id === settings.theme) ?? BUILT_IN_THEMES[0];
+
+/** A new editable theme starting from `base`'s colors. */
+export const createTheme = (base: OrionTheme): OrionTheme => ({
+  id: crypto.randomUUID(),
+  name: `${base.name} Custom`,
+  palette: { ...base.palette },
+  orb: { ...base.orb },
+  background: { ...base.background },
+});
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const parseColors = <K extends string>(raw: unknown, keys: readonly K[], label: string): Record<K, string> => {
+  if (!isRecord(raw)) throw new Error(`${label} are missing.`);
+  keys.forEach(key => {
+    const value = raw[key];
+    if (typeof value !== 'string' || !HEX_COLOR.test(value)) throw new Error(`${label} need a #rrggbb "${key}" color.`);
+  });
+  return Object.fromEntries(keys.map(key => [key, raw[key]])) as Record<K, string>;
+};
+
+/** A theme from untrusted JSON, e.g. stored settings. Throws when a field is missing or not a #rrggbb color. */
+export const parseTheme = (raw: unknown): OrionTheme => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') {
+    throw new Error("Theme has no id or name.");
+  }
+  return {
+    id: raw.id,
+    name: raw.name,
+    palette: parseColors(raw.palette, THEME_COLORS, `Theme "${raw.name}" colors`),
+    orb: parseColors(raw.orb, Object.values(OrionState), `Theme "${raw.name}" orb colors`),
+    background: parseColors(raw.background, ['from', 'via', 'to'] as const, `Theme "${raw.name}" background colors`),
+  };
+};
+
+// Tailwind's `<alpha-value>` placeholder needs bare channels, e.g. "56 189 248"
+const toChannels = (hex: string): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return `${(value >> 16) & 255} ${(value >> 8) & 255} ${value & 255}`;
+};
+
+/**
+ * Point the CSS variables behind the orion-* Tailwind colors and the page
+ * background at `theme`. Everything styled with those classes restyles live.
+ */
+export const applyTheme = (theme: OrionTheme, root: HTMLElement = document.documentElement): void => {
+  THEME_COLORS.forEach(color => root.style.setProperty(`--orion-${color}`, toChannels(theme.palette[color])));
+  root.style.setProperty('--orion-bg-from', theme.background.from);
+  root.style.setProperty('--orion-bg-via', theme.background.via);
+  root.style.setProperty('--orion-bg-to', theme.background.to);
+};
@@ -0,0 +1,81 @@
+import { OrionSettings, OrionTool } from "../../types";
+import { findProfile, getAllProfiles } from "../profiles";
+import { toSharedContext } from "../sensors";
+import { coarsenLocation } from "../privacy";
+
+export const deviceTools: OrionTool[] = [
+  {
+    name: 'get_device_context',
+    description: 'Read the current device state the user shares (time, connectivity and network quality, battery level and charging state, platform, locale, location if known) and the available personality profiles.',
+    parameters: { type: 'object', properties: {} },
+    handler: async (_args, env) => ({
+      ...toSharedContext(env.context, env.settings),
+      personalityProfiles: getAllProfiles(env.settings).map(p => p.name),
+    }),
+  },
+  {
+    name: 'update_settings',
+    description: "Change ORION's own configuration: its personality profile (tone) and the visual intensity of the interface. Call get_device_context first if you need the list of available profiles.",
+    category: 'settings',
+    parameters: {
+      type: 'object',
+      properties: {
+        personality: { type: 'string', description: 'Name or id of a personality profile, e.g. "Friendly".' },
+        visualIntensity: { type: 'string', enum: ['minimal', 'balanced', 'immersive'] },
+      },
+    },
+    handler: async (args: Pick<Partial<OrionSettings>, 'personality' | 'visualIntensity'>, env) => {
+      const patch: Partial<OrionSettings> = {};
+      if (args.personality) {
+        const profile = findProfile(env.settings, args.personality);
+        if (!profile) {
+          throw new Error(`Unknown profile "${args.personality}". Available: ${getAllProfiles(env.settings).map(p => p.name).join(', ')}.`);
+        }
+        patch.personality = profile.id;
+      }
+      if (args.visualIntensity) patch.visualIntensity = args.visualIntensity;
+      if (Object.keys(patch).length === 0) {
+        throw new Error("Nothing to change: pass personality and/or visualIntensity.");
+      }
+      env.updateSettings(patch);
+      return { applied: patch };
+    },
+  },
+  {
+    name: 'get_location',
+    description: "Read the device's current geographic position (latitude, longitude, accuracy in meters), rounded to the precision the user allows.",
+    category: 'geolocation',
+    parameters: { type: 'object', properties: {} },
+    handler: (_args, env) => new Promise((resolve, reject) => {
+      if (!('geolocation' in navigator)) {
+        reject(new Error("Geolocation is not available on this device."));
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        position => resolve(coarsenLocation({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: position.coords.accuracy
+        }, env.settings.privacy.locationPrecision)),
+        error => reject(new Error(error.message)),
+        { timeout: 10000 }
+      );
+    }),
+  },
+  {
+    name: 'copy_to_clipboard',
+    description: "Place text on the user's clipboard.",
+    category: 'clipboard',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'The exact text to copy.' },
+      },
+      required: ['text'],
+    },
+    handler: async ({ text }: { text: string }) => {
+      await navigator.clipboard.writeText(text);
+      return { copiedCharacters: text.length };
+    },
+  },
+];
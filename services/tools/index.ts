@@ -0,0 +1,12 @@
+import { createToolRegistry, executeToolCall } from "./registry";
+import { deviceTools } from "./deviceTools";
+import { mathTools } from "./mathTools";
+import { webTools } from "./webTools";
+import { memoryTools } from "./memoryTools";
+import { taskTools } from "./taskTools";
+
+// Default registry used for every request. Register additional tools here
+// (or call orionTools.register elsewhere at startup).
+export const orionTools = createToolRegistry([...deviceTools, ...mathTools, ...webTools, ...memoryTools, ...taskTools]);
+
+export { createToolRegistry, executeToolCall };
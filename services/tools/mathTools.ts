@@ -0,0 +1,178 @@
+import { OrionTool } from "../../types";
+
+// --- Calculator ---
+// Small recursive-descent evaluator so model-provided expressions never reach eval().
+// Grammar: expr = term (('+'|'-') term)*, term = factor (('*'|'/'|'%') factor)*,
+// factor = unary ('^' factor)?, unary = '-' unary | primary, primary = number | constant | fn '(' expr ')' | '(' expr ')'
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  ln: Math.log, log: Math.log10, exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+export const evaluateExpression = (expression: string): number => {
+  const tokens = expression.toLowerCase().match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z]+|[-+*/%^()]/g) ?? [];
+  if (tokens.join('') !== expression.toLowerCase().replace(/\s+/g, '')) {
+    throw new Error("Expression contains unsupported characters.");
+  }
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}".`);
+  };
+
+  const parseExpr = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseFactor();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = next();
+      const rhs = parseFactor();
+      value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  const parseFactor = (): number => {
+    const base = parseUnary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parseFactor());
+    }
+    return base;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') next();
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error("Unexpected end of expression.");
+    if (token === '(') {
+      const value = parseExpr();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+    if (token in CONSTANTS) return CONSTANTS[token];
+    if (token in FUNCTIONS) {
+      expect('(');
+      const arg = parseExpr();
+      expect(')');
+      return FUNCTIONS[token](arg);
+    }
+    throw new Error(`Unknown symbol "${token}".`);
+  };
+
+  const result = parseExpr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}".`);
+  return result;
+};
+
+// --- Unit conversion ---
+// Linear units are expressed as a factor of the dimension's base unit.
+
+const LINEAR_UNITS: Record<string, { dimension: string; factor: number }> = {
+  // length (m)
+  mm: { dimension: 'length', factor: 0.001 }, cm: { dimension: 'length', factor: 0.01 },
+  m: { dimension: 'length', factor: 1 }, km: { dimension: 'length', factor: 1000 },
+  in: { dimension: 'length', factor: 0.0254 }, ft: { dimension: 'length', factor: 0.3048 },
+  yd: { dimension: 'length', factor: 0.9144 }, mi: { dimension: 'length', factor: 1609.344 },
+  // mass (kg)
+  mg: { dimension: 'mass', factor: 1e-6 }, g: { dimension: 'mass', factor: 0.001 },
+  kg: { dimension: 'mass', factor: 1 }, t: { dimension: 'mass', factor: 1000 },
+  oz: { dimension: 'mass', factor: 0.028349523125 }, lb: { dimension: 'mass', factor: 0.45359237 },
+  // volume (l)
+  ml: { dimension: 'volume', factor: 0.001 }, l: { dimension: 'volume', factor: 1 },
+  gal: { dimension: 'volume', factor: 3.785411784 }, floz: { dimension: 'volume', factor: 0.0295735295625 },
+  cup: { dimension: 'volume', factor: 0.2365882365 },
+  // time (s)
+  ms: { dimension: 'time', factor: 0.001 }, s: { dimension: 'time', factor: 1 },
+  min: { dimension: 'time', factor: 60 }, h: { dimension: 'time', factor: 3600 },
+  d: { dimension: 'time', factor: 86400 }, wk: { dimension: 'time', factor: 604800 },
+  // data (byte)
+  b: { dimension: 'data', factor: 1 }, kb: { dimension: 'data', factor: 1024 },
+  mb: { dimension: 'data', factor: 1024 ** 2 }, gb: { dimension: 'data', factor: 1024 ** 3 },
+  tb: { dimension: 'data', factor: 1024 ** 4 },
+  // speed (m/s)
+  'm/s': { dimension: 'speed', factor: 1 }, 'km/h': { dimension: 'speed', factor: 1 / 3.6 },
+  mph: { dimension: 'speed', factor: 0.44704 }, kn: { dimension: 'speed', factor: 0.514444 },
+};
+
+const TEMPERATURE_TO_CELSIUS: Record<string, (v: number) => number> = {
+  c: v => v, f: v => (v - 32) * 5 / 9, k: v => v - 273.15,
+};
+const TEMPERATURE_FROM_CELSIUS: Record<string, (v: number) => number> = {
+  c: v => v, f: v => v * 9 / 5 + 32, k: v => v + 273.15,
+};
+
+export const convertUnits = (value: number, from: string, to: string): number => {
+  const src = from.toLowerCase();
+  const dst = to.toLowerCase();
+
+  if (src in TEMPERATURE_TO_CELSIUS && dst in TEMPERATURE_FROM_CELSIUS) {
+    return TEMPERATURE_FROM_CELSIUS[dst](TEMPERATURE_TO_CELSIUS[src](value));
+  }
+
+  const a = LINEAR_UNITS[src];
+  const b = LINEAR_UNITS[dst];
+  if (!a || !b) throw new Error(`Unsupported unit "${!a ? from : to}".`);
+  if (a.dimension !== b.dimension) {
+    throw new Error(`Cannot convert ${a.dimension} (${from}) to ${b.dimension} (${to}).`);
+  }
+  return value * a.factor / b.factor;
+};
+
+const SUPPORTED_UNITS = [...Object.keys(LINEAR_UNITS), 'c', 'f', 'k'];
+
+export const mathTools: OrionTool[] = [
+  {
+    name: 'calculate',
+    description: 'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log, exp.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'The expression, e.g. "(3 + 4) * sqrt(16)".' },
+      },
+      required: ['expression'],
+    },
+    handler: async ({ expression }: { expression: string }) => ({
+      expression,
+      result: evaluateExpression(expression),
+    }),
+  },
+  {
+    name: 'convert_units',
+    description: 'Convert a value between units of length, mass, volume, time, data size, speed or temperature.',
+    parameters: {
+      type: 'object',
+      properties: {
+        value: { type: 'number', description: 'The quantity to convert.' },
+        from: { type: 'string', description: `Source unit. One of: ${SUPPORTED_UNITS.join(', ')}.` },
+        to: { type: 'string', description: 'Target unit, same list as "from".' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+    handler: async ({ value, from, to }: { value: number; from: string; to: string }) => ({
+      value, from, to,
+      result: convertUnits(value, from, to),
+    }),
+  },
+];
@@ -0,0 +1,72 @@
+import { OrionTool } from "../../types";
+import { forgetMemory, listMemories, rankMemories, rememberFact, updateMemory } from "../memoryStore";
+
+// Upper bound on facts returned by a memory search
+const MAX_SEARCH_RESULTS = 20;
+
+export const memoryTools: OrionTool[] = [
+  {
+    name: 'remember',
+    description: 'Save a short, durable fact about the user (a preference, a name, a recurring task) so it is available in future conversations. Do not store secrets or one-off details.',
+    category: 'memory',
+    parameters: {
+      type: 'object',
+      properties: {
+        fact: { type: 'string', description: 'One self-contained statement, e.g. "Prefers metric units".' },
+      },
+      required: ['fact'],
+    },
+    handler: async ({ fact }: { fact: string }, env) => {
+      const stored = await rememberFact(fact, { messageId: env.sourceMessageId, sessionId: env.sessionId ?? undefined });
+      return { id: stored.id, fact: stored.text };
+    },
+  },
+  {
+    name: 'update_memory',
+    description: 'Replace the text of a remembered fact that has changed. Use the id shown next to the fact.',
+    category: 'memory',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        fact: { type: 'string', description: 'The corrected statement.' },
+      },
+      required: ['id', 'fact'],
+    },
+    handler: async ({ id, fact }: { id: string; fact: string }) => {
+      const updated = await updateMemory(id, fact);
+      return { id: updated.id, fact: updated.text };
+    },
+  },
+  {
+    name: 'forget_memory',
+    description: 'Delete a remembered fact, e.g. when the user asks you to forget it or it is no longer true.',
+    category: 'memory',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+      },
+      required: ['id'],
+    },
+    handler: async ({ id }: { id: string }) => {
+      await forgetMemory(id);
+      return { forgotten: id };
+    },
+  },
+  {
+    name: 'search_memory',
+    description: 'Search everything remembered about the user, beyond the facts already listed in your instructions.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to look for.' },
+      },
+      required: ['query'],
+    },
+    handler: async ({ query }: { query: string }) => {
+      const matches = rankMemories(await listMemories(), query, MAX_SEARCH_RESULTS);
+      return { memories: matches.map(({ id, text, updatedAt }) => ({ id, fact: text, updatedAt: updatedAt.toISOString() })) };
+    },
+  },
+];
@@ -0,0 +1,67 @@
+import { JsonSchema, OrionTool, ToolCall, ToolCallRequest, ToolEnvironment, ToolRegistry } from "../../types";
+
+export const createToolRegistry = (tools: OrionTool[] = []): ToolRegistry => {
+  const byName = new Map<string, OrionTool>();
+
+  const registry: ToolRegistry = {
+    register(tool: OrionTool) {
+      if (byName.has(tool.name)) {
+        throw new Error(`Tool "${tool.name}" is already registered.`);
+      }
+      byName.set(tool.name, tool);
+    },
+    get: (name: string) => byName.get(name),
+    declarations: () =>
+      Array.from(byName.values()).map(({ name, description, parameters }) => ({ name, description, parameters }))
+  };
+
+  tools.forEach(registry.register);
+  return registry;
+};
+
+// Shallow check of the model's arguments against the declared schema.
+// Models occasionally omit required fields or send numbers as strings.
+const validateArgs = (schema: JsonSchema, args: Record<string, unknown>): string | null => {
+  for (const key of schema.required ?? []) {
+    if (args[key] === undefined || args[key] === null) return `Missing required argument "${key}".`;
+  }
+  for (const [key, value] of Object.entries(args)) {
+    const prop = schema.properties?.[key];
+    if (!prop) continue;
+    if (prop.enum && !prop.enum.includes(value as string | number)) {
+      return `Argument "${key}" must be one of: ${prop.enum.join(', ')}.`;
+    }
+    if ((prop.type === 'number' || prop.type === 'integer') && typeof value !== 'number') {
+      return `Argument "${key}" must be a number.`;
+    }
+  }
+  return null;
+};
+
+/** Run one requested call. Failures are captured on the record rather than thrown. */
+export const executeToolCall = async (
+  registry: ToolRegistry,
+  request: ToolCallRequest,
+  env: ToolEnvironment
+): Promise<ToolCall> => {
+  const tool = registry.get(request.name);
+  if (!tool) {
+    return { ...request, status: 'error', error: `Unknown tool "${request.name}".` };
+  }
+
+  if (request.argumentsError) {
+    return { ...request, status: 'error', error: request.argumentsError };
+  }
+
+  const validationError = validateArgs(tool.parameters, request.args);
+  if (validationError) {
+    return { ...request, status: 'error', error: validationError };
+  }
+
+  try {
+    const result = await tool.handler(request.args, env);
+    return { ...request, status: 'success', result };
+  } catch (error) {
+    return { ...request, status: 'error', error: error instanceof Error ? error.message : String(error) };
+  }
+};
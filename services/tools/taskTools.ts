@@ -0,0 +1,97 @@
+import { OrionTool, RecurrenceUnit, ScheduledTask } from "../../types";
+import { describeRecurrence, firesAt } from "../scheduler";
+
+const describeTask = (task: ScheduledTask) => ({
+  id: task.id,
+  label: task.label,
+  firesAt: new Date(firesAt(task)).toLocaleString(),
+  repeats: task.recurrence ? describeRecurrence(task.recurrence) : 'never',
+});
+
+interface ScheduleArgs {
+  label: string;
+  delaySeconds?: number;
+  at?: string;
+  repeatUnit?: RecurrenceUnit;
+  repeatInterval?: number;
+}
+
+export const taskTools: OrionTool[] = [
+  {
+    name: 'schedule_task',
+    description: 'Set a timer, a reminder or a recurring task that alerts the user with a notification and a chat message. Give either delaySeconds (e.g. "in 20 minutes") or at (e.g. "tomorrow at 8"); add repeatUnit for recurring tasks.',
+    category: 'notifications',
+    parameters: {
+      type: 'object',
+      properties: {
+        label: { type: 'string', description: 'What the alert is about, e.g. "Stretch".' },
+        delaySeconds: { type: 'number', description: 'Delay until the first alert, in seconds.' },
+        at: { type: 'string', description: 'Local date and time of the first alert, ISO 8601 without offset, e.g. "2025-03-01T08:00".' },
+        repeatUnit: { type: 'string', enum: ['minute', 'hour', 'day', 'week'], description: 'Omit for a one-off alert.' },
+        repeatInterval: { type: 'integer', description: 'Repeat every this many units. Defaults to 1.' },
+      },
+      required: ['label'],
+    },
+    handler: async ({ label, delaySeconds, at, repeatUnit, repeatInterval }: ScheduleArgs, env) => {
+      if ((delaySeconds === undefined) === (at === undefined)) {
+        throw new Error("Pass exactly one of delaySeconds or at.");
+      }
+      let dueAt: number;
+      if (delaySeconds !== undefined) {
+        if (delaySeconds <= 0) throw new Error("Delay must be positive.");
+        dueAt = Date.now() + delaySeconds * 1000;
+      } else {
+        dueAt = new Date(at!).getTime();
+        if (Number.isNaN(dueAt)) throw new Error(`Could not read the time "${at}".`);
+        if (dueAt <= Date.now()) throw new Error(`${new Date(dueAt).toLocaleString()} is already in the past.`);
+      }
+      const task = env.scheduler.schedule({
+        label,
+        dueAt,
+        recurrence: repeatUnit ? { unit: repeatUnit, interval: repeatInterval ?? 1 } : undefined,
+      });
+      return describeTask(task);
+    },
+  },
+  {
+    name: 'list_tasks',
+    description: 'List the pending timers, reminders and recurring tasks, soonest first.',
+    parameters: { type: 'object', properties: {} },
+    handler: async (_args, env) => ({ tasks: env.scheduler.list().map(describeTask) }),
+  },
+  {
+    name: 'snooze_task',
+    description: 'Postpone a pending or just-fired task. For a recurring task only the current occurrence moves.',
+    category: 'notifications',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        minutes: { type: 'number', description: 'How long to postpone it.' },
+      },
+      required: ['id', 'minutes'],
+    },
+    handler: async ({ id, minutes }: { id: string; minutes: number }, env) => {
+      if (minutes <= 0) throw new Error("Snooze must be positive.");
+      const task = env.scheduler.snooze(id, minutes * 60000);
+      if (!task) throw new Error(`No task with id "${id}". Call list_tasks to see the ids.`);
+      return describeTask(task);
+    },
+  },
+  {
+    name: 'cancel_task',
+    description: 'Cancel a pending timer, reminder or recurring task.',
+    category: 'notifications',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+      },
+      required: ['id'],
+    },
+    handler: async ({ id }: { id: string }, env) => {
+      if (!env.scheduler.cancel(id)) throw new Error(`No pending task with id "${id}". Call list_tasks to see the ids.`);
+      return { cancelled: id };
+    },
+  },
+];
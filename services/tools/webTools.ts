@@ -0,0 +1,30 @@
+import { OrionTool } from "../../types";
+
+// Responses are truncated so a large page can't blow the context window
+const MAX_RESPONSE_CHARS = 4000;
+
+export const webTools: OrionTool[] = [
+  {
+    name: 'fetch_url',
+    description: 'Send an HTTP GET request and return the status and the beginning of the response body. Only works for servers that allow cross-origin requests.',
+    category: 'network',
+    parameters: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', description: 'Absolute http(s) URL.' },
+      },
+      required: ['url'],
+    },
+    handler: async ({ url }: { url: string }) => {
+      if (!/^https?:\/\//i.test(url)) throw new Error("Only http(s) URLs are allowed.");
+      const response = await fetch(url, { method: 'GET' });
+      const body = await response.text();
+      return {
+        status: response.status,
+        contentType: response.headers.get('content-type'),
+        body: body.slice(0, MAX_RESPONSE_CHARS),
+        truncated: body.length > MAX_RESPONSE_CHARS
+      };
+    },
+  },
+];
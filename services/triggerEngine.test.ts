@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ContextSnapshot, DeviceContext, ProactiveRule, TriggerCondition } from '../types';
+import { createTriggerEngine, runTimeline } from './triggerEngine';
+
+const rule = (id: string, condition: TriggerCondition, cooldownMinutes = 0): ProactiveRule => ({
+  id, name: id, condition, message: '', action: 'message', cooldownMinutes, enabled: true,
+});
+
+const BASE_CONTEXT: DeviceContext = {
+  batteryLevel: 0.8, isCharging: false, isOnline: true, platform: 'test', currentTime: '',
+};
+
+// Local time, so time-window rules see the hours as written
+const at = (hour: number, minute = 0) => new Date(2026, 0, 1, hour, minute);
+
+const snapshot = (time: Date, context: Partial<DeviceContext> = {}): ContextSnapshot => ({
+  at: time, context: { ...BASE_CONTEXT, ...context },
+});
+
+const firedIds = (rules: ProactiveRule[], timeline: ContextSnapshot[]) =>
+  runTimeline(rules, timeline).map(({ rule, at }) => `${rule.id}@${at.getHours()}:${String(at.getMinutes()).padStart(2, '0')}`);
+
+describe('runTimeline', () => {
+  it('fires battery-below once when the level crosses the threshold', () => {
+    const low = rule('low', { type: 'battery-below', threshold: 0.2 });
+    expect(firedIds([low], [
+      snapshot(at(9), { batteryLevel: 0.3 }),
+      snapshot(at(10), { batteryLevel: 0.15 }),
+      snapshot(at(11), { batteryLevel: 0.1 }),
+    ])).toEqual(['low@10:00']);
+  });
+
+  it('does not fire battery-below while charging', () => {
+    const low = rule('low', { type: 'battery-below', threshold: 0.2 });
+    expect(firedIds([low], [snapshot(at(9), { batteryLevel: 0.1, isCharging: true })])).toEqual([]);
+  });
+
+  it('ignores the first battery report as a charging flip', () => {
+    const plugged = rule('plugged', { type: 'charging-changed', charging: true });
+    expect(firedIds([plugged], [
+      snapshot(at(9), { batteryLevel: null }),
+      snapshot(at(9, 1), { batteryLevel: 0.5, isCharging: true }),
+      snapshot(at(9, 2), { batteryLevel: 0.5, isCharging: false }),
+      snapshot(at(9, 3), { batteryLevel: 0.5, isCharging: true }),
+    ])).toEqual(['plugged@9:03']);
+  });
+
+  it('fires connectivity rules only on the matching flip', () => {
+    const offline = rule('offline', { type: 'connectivity-changed', online: false });
+    const either = rule('either', { type: 'connectivity-changed' });
+    expect(firedIds([offline, either], [
+      snapshot(at(9)),
+      snapshot(at(10), { isOnline: false }),
+      snapshot(at(11), { isOnline: true }),
+    ])).toEqual(['offline@10:00', 'either@10:00', 'either@11:00']);
+  });
+
+  it('fires a time window on entry, including windows that wrap midnight', () => {
+    const night = rule('night', { type: 'time-window', startHour: 22, endHour: 6 });
+    expect(firedIds([night], [
+      snapshot(at(21)),
+      snapshot(at(22, 30)),
+      snapshot(at(23)),
+      snapshot(at(7)),
+      snapshot(at(23, 30)),
+    ])).toEqual(['night@22:30', 'night@23:30']);
+  });
+
+  it('fires a level condition on the first observation', () => {
+    const morning = rule('morning', { type: 'time-window', startHour: 8, endHour: 12 });
+    expect(firedIds([morning], [snapshot(at(9))])).toEqual(['morning@9:00']);
+  });
+
+  it('honours the cooldown between firings', () => {
+    const flip = rule('flip', { type: 'connectivity-changed' }, 30);
+    expect(firedIds([flip], [
+      snapshot(at(9)),
+      snapshot(at(9, 10), { isOnline: false }),
+      snapshot(at(9, 20)),
+      snapshot(at(9, 50), { isOnline: false }),
+    ])).toEqual(['flip@9:10', 'flip@9:50']);
+  });
+});
+
+describe('createTriggerEngine', () => {
+  it('keeps cooldowns from a restored history', () => {
+    const flip = rule('flip', { type: 'connectivity-changed' }, 60);
+    const engine = createTriggerEngine({ flip: at(9).getTime() });
+
+    engine.observe([flip], snapshot(at(9, 30)));
+    expect(engine.observe([flip], snapshot(at(9, 40), { isOnline: false }))).toEqual([]);
+    expect(engine.observe([flip], snapshot(at(10, 10)))).toEqual([flip]);
+    expect(engine.history()).toEqual({ flip: at(10, 10).getTime() });
+  });
+});
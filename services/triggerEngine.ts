@@ -0,0 +1,100 @@
+import { ContextSnapshot, DeviceContext, OrionSettings, ProactiveRule, TriggerCondition, TriggerEngine } from "../types";
+
+const HISTORY_KEY = 'orion.triggers';
+
+const isInWindow = (at: Date, startHour: number, endHour: number): boolean => {
+  const hour = at.getHours();
+  return startHour <= endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour; // Window wraps past midnight
+};
+
+const isLowBattery = (context: DeviceContext, threshold: number): boolean =>
+  context.batteryLevel !== null && context.batteryLevel < threshold && !context.isCharging;
+
+/**
+ * Whether `condition` becomes true between two observations. `previous` is null
+ * for the first observation, which only fires level conditions (battery, time).
+ */
+export const conditionFires = (
+  condition: TriggerCondition,
+  previous: ContextSnapshot | null,
+  current: ContextSnapshot
+): boolean => {
+  const before = previous?.context;
+  const now = current.context;
+
+  switch (condition.type) {
+    case 'battery-below':
+      return isLowBattery(now, condition.threshold) && !(before && isLowBattery(before, condition.threshold));
+    case 'charging-changed':
+      // The battery reading starts out unknown; its first report is not a flip
+      if (!before || before.batteryLevel === null || before.isCharging === now.isCharging) return false;
+      return condition.charging === undefined || condition.charging === now.isCharging;
+    case 'connectivity-changed':
+      if (!before || before.isOnline === now.isOnline) return false;
+      return condition.online === undefined || condition.online === now.isOnline;
+    case 'time-window':
+      return isInWindow(current.at, condition.startHour, condition.endHour)
+        && !(previous && isInWindow(previous.at, condition.startHour, condition.endHour));
+  }
+};
+
+export const isRuleEnabled = (rule: ProactiveRule, settings: OrionSettings): boolean =>
+  settings.triggers[rule.id] ?? rule.enabled;
+
+/** Fill the {battery} and {time} placeholders of a rule's message. */
+export const renderRuleMessage = (rule: ProactiveRule, snapshot: ContextSnapshot): string =>
+  rule.message
+    .replace(/\{battery\}/g, snapshot.context.batteryLevel !== null
+      ? `${Math.round(snapshot.context.batteryLevel * 100)}%`
+      : 'an unknown level')
+    .replace(/\{time\}/g, snapshot.at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
+
+/**
+ * Stateful evaluator: feed it each DeviceContext observation and it returns the
+ * rules that fired, honouring each rule's cooldown. `lastFired` (rule id to epoch
+ * ms) lets cooldowns survive reloads.
+ */
+export const createTriggerEngine = (lastFired: Record<string, number> = {}): TriggerEngine => {
+  let previous: ContextSnapshot | null = null;
+  const fired = { ...lastFired };
+
+  const observe = (rules: ProactiveRule[], snapshot: ContextSnapshot): ProactiveRule[] => {
+    const due = rules.filter(rule => {
+      if (!conditionFires(rule.condition, previous, snapshot)) return false;
+      const last = fired[rule.id];
+      return last === undefined || snapshot.at.getTime() - last >= rule.cooldownMinutes * 60000;
+    });
+    due.forEach(rule => { fired[rule.id] = snapshot.at.getTime(); });
+    previous = snapshot;
+    return due;
+  };
+
+  return {
+    observe,
+    history: () => ({ ...fired }),
+  };
+};
+
+/** Run rules over a simulated sequence of observations, e.g. to check a rule set. */
+export const runTimeline = (rules: ProactiveRule[], timeline: ContextSnapshot[]): { rule: ProactiveRule; at: Date }[] => {
+  const engine = createTriggerEngine();
+  return timeline.flatMap(snapshot => engine.observe(rules, snapshot).map(rule => ({ rule, at: snapshot.at })));
+};
+
+export const loadTriggerHistory = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveTriggerHistory = (history: Record<string, number>): void => {
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error("Trigger history could not be saved:", error);
+  }
+};
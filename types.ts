@@ -16,7 +16,28 @@ export interface Message {
   text: string;
   sender: Sender;
   timestamp: Date;
-  attachments?: string[]; // Base64 strings for images
+  attachments?: Attachment[];
+  toolCalls?: ToolCall[]; // Operations executed while producing this reply
+  error?: MessageError; // Set on inline failure notices; never sent to the model
+  pending?: boolean; // Composed while the provider was unreachable; sent in order once back online
+  parentId?: string | null; // Message this one follows in the conversation tree; null for a root
+  local?: boolean; // Slash-command output, reminders and proactive notices; shown in the chat but never sent to the model
+}
+
+export type OrionErrorKind = 'missing-key' | 'rate-limit' | 'offline' | 'safety' | 'timeout' | 'empty-response' | 'provider';
+
+export interface MessageError {
+  kind: OrionErrorKind;
+  message: string;
+  retryable: boolean;
+}
+
+export interface Attachment {
+  id: string;
+  mimeType: string;
+  name: string;
+  size: number; // Bytes of the decoded data
+  data: string; // Raw base64, without the data URL header
 }
 
 export interface DeviceContext {
@@ -28,11 +49,462 @@ export interface DeviceContext {
   geolocation?: {
     lat: number;
     lng: number;
+    accuracy?: number; // Meters
+  };
+  connection?: {
+    type?: string; // e.g. 'wifi', 'cellular'
+    effectiveType?: string; // e.g. '4g', '3g'
+    downlinkMbps?: number;
+    rttMs?: number;
+    saveData?: boolean;
   };
+  isVisible?: boolean; // Whether the page is in the foreground
+  locale?: string;
+  timeZone?: string;
+  prefersReducedMotion?: boolean;
+  hardware?: {
+    memoryGb?: number;
+    cpuCores?: number;
+  };
+}
+
+// --- Sensors ---
+
+export type SensorId = 'battery' | 'network' | 'geolocation' | 'visibility' | 'locale' | 'reduced-motion' | 'hardware';
+
+// One source of DeviceContext data, owning its subscription and cleanup
+export interface DeviceSensor {
+  id: SensorId;
+  label: string;
+  description: string;
+  requiresPermission?: boolean; // Starting it prompts the user, so it only runs while shared
+  blank: Partial<DeviceContext>; // What its fields read while it is stopped or kept private
+  isSupported: () => boolean;
+  subscribe: (report: (patch: Partial<DeviceContext>) => void) => () => void; // Returns the cleanup
+}
+
+export interface SensorRegistry {
+  register: (sensor: DeviceSensor) => void;
+  get: (id: SensorId) => DeviceSensor | undefined;
+  list: () => DeviceSensor[];
 }
 
 export interface OrionSettings {
-  personality: 'professional' | 'friendly' | 'direct';
+  personality: string; // Id of the active PersonalityProfile
   visualIntensity: 'minimal' | 'balanced' | 'immersive';
   voiceEnabled: boolean;
+  voiceMode: VoiceMode;
+  provider: ProviderId;
+  model: string;
+  providerBaseUrl: string; // Only used by the OpenAI-compatible provider
+  providerApiKey: string; // Bearer token for the OpenAI-compatible provider; empty for servers without auth
+  mockLatencyMs: number; // Simulated delay before the mock provider's first chunk
+  mockFailEvery: number; // The mock provider fails every Nth request; 0 disables
+  contextTokenBudget: number; // Estimated tokens of history sent with each request
+  permissions: Record<ActionCategory, PermissionPolicy>;
+  customProfiles: PersonalityProfile[];
+  triggers: Record<string, boolean>; // Per-rule switches keyed by ProactiveRule id; missing ids use the rule default
+  sensors: Record<SensorId, boolean>; // Whether each sensor's readings may reach the model
+  theme: string; // Id of the active OrionTheme
+  customThemes: OrionTheme[];
+  modelPrices: Record<string, ModelPrice>; // Keyed by model name; models without a price count as free
+  dailyTokenBudget: number; // Tokens per local day before sending asks for confirmation; 0 disables
+  privacy: PrivacySettings;
+}
+
+export interface PersonalityProfile {
+  id: string;
+  name: string;
+  tone: string; // Injected into the system instruction as ORION's tone
+  temperature: number;
+  model?: string; // Overrides OrionSettings.model while the profile is active
+  builtIn?: boolean;
+}
+
+// --- Themes ---
+
+export type ThemeColor = 'base' | 'surface' | 'highlight' | 'accent' | 'success' | 'warning' | 'danger';
+
+// All colors are #rrggbb so they can be edited with native color inputs
+export interface OrionTheme {
+  id: string;
+  name: string;
+  palette: Record<ThemeColor, string>; // Behind the orion-* Tailwind colors
+  orb: Record<OrionState, string>;
+  background: { from: string; via: string; to: string }; // Radial gradient, center outwards
+  builtIn?: boolean;
+}
+
+// --- Slash Commands ---
+
+// What a command may read and do; commands never reach the model unless they ask to (e.g. /retry)
+export interface CommandContext {
+  settings: OrionSettings;
+  context: DeviceContext;
+  messages: Message[];
+  updateSettings: (patch: Partial<OrionSettings>) => void;
+  reply: (text: string) => void; // Post a local Orion message
+  clearConversation: () => void;
+  newSession: () => void;
+  exportConversation: (format: ConversationExportFormat) => void;
+  retry: () => boolean; // Re-run the last prompt; false when there is nothing to retry
+}
+
+export interface SlashCommand {
+  name: string; // Typed after the slash, e.g. "persona"
+  description: string;
+  usage?: string; // Argument hint, e.g. "<name>"
+  suggestArgs?: (context: CommandContext) => string[]; // Completions for the argument
+  run: (args: string, context: CommandContext) => void; // Throws with a user-facing message on bad input
+}
+
+export interface CommandRegistry {
+  register: (command: SlashCommand) => void;
+  get: (name: string) => SlashCommand | undefined;
+  list: () => SlashCommand[];
+}
+
+export interface CommandSuggestion {
+  label: string; // Shown in the popup, e.g. "/persona"
+  completion: string; // Input text after accepting it
+  hint?: string; // Argument usage
+  description?: string;
+}
+
+// --- Privacy ---
+
+// DeviceContext fields no sensor owns; sensor readings follow OrionSettings.sensors
+export type CoreContextField = 'currentTime' | 'isOnline' | 'platform';
+
+// The context as the model may see it: unshared core fields are left out
+export type SharedContext = Omit<DeviceContext, CoreContextField> & Partial<Pick<DeviceContext, CoreContextField>>;
+
+// exact, ~11 km (city) or ~111 km (region)
+export type LocationPrecision = 'exact' | 'city' | 'region';
+
+export type BuiltInRedaction = 'email' | 'phone' | 'card';
+
+export interface RedactionPattern {
+  id: string;
+  label: string; // Matches are replaced with [LABEL]
+  pattern: string; // RegExp source, matched globally and case-insensitively
+  enabled: boolean;
+}
+
+export interface PrivacySettings {
+  sharedFields: Record<CoreContextField, boolean>;
+  locationPrecision: LocationPrecision;
+  redact: Record<BuiltInRedaction, boolean>;
+  customPatterns: RedactionPattern[];
+}
+
+// --- Telemetry ---
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type CallOutcome = 'success' | 'error' | 'aborted';
+
+// One reply (all tool rounds and retries included) or one summary, as measured on this device
+export interface TelemetryRecord {
+  id: string;
+  purpose: 'reply' | 'summary';
+  sessionId: string | null;
+  provider: ProviderId;
+  model: string;
+  startedAt: Date;
+  latencyMs: number; // Until the last chunk, or the failure
+  timeToFirstTokenMs: number | null; // Null when nothing arrived
+  promptTokens: number;
+  responseTokens: number;
+  estimated: boolean; // Some counts were estimated because the backend reported no usage
+  attachmentCount: number;
+  toolCallCount: number;
+  outcome: CallOutcome;
+  errorKind?: OrionErrorKind;
+}
+
+// --- Search ---
+
+// One searchable message, with what the results list needs to show it
+export interface SearchDocument {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  sender: Sender;
+  timestamp: Date;
+  hasAttachments: boolean;
+  text: string;
+}
+
+export interface SearchFilters {
+  sender?: Sender;
+  from?: Date; // Inclusive
+  to?: Date; // Exclusive
+  hasAttachments?: boolean;
+}
+
+// Snippet text split into plain and matched runs, for highlighting
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+export interface SearchIndex {
+  size: number;
+  search(query: string, filters?: SearchFilters, limit?: number): SearchResult[];
+}
+
+// --- Long-Term Memory ---
+
+export interface MemoryFact {
+  id: string;
+  text: string; // One short statement about the user, e.g. "Prefers metric units"
+  createdAt: Date;
+  updatedAt: Date;
+  sourceMessageId?: string; // Message the fact was learned from; absent for manual edits
+  sourceSessionId?: string;
+}
+
+// --- Proactive Triggers ---
+
+// Conditions are edge-triggered: they fire on the observation where they become true
+export type TriggerCondition =
+  | { type: 'battery-below'; threshold: number } // 0-1, while discharging
+  | { type: 'charging-changed'; charging?: boolean } // Omit to fire on either flip
+  | { type: 'connectivity-changed'; online?: boolean } // Omit to fire on either flip
+  | { type: 'time-window'; startHour: number; endHour: number }; // Local hours, end exclusive; may wrap midnight
+
+export type TriggerAction = 'message' | 'notification' | 'both';
+
+export interface ProactiveRule {
+  id: string;
+  name: string;
+  condition: TriggerCondition;
+  message: string; // May use {battery} and {time} placeholders
+  action: TriggerAction;
+  cooldownMinutes: number;
+  enabled: boolean; // Default when settings hold no switch for this rule
+}
+
+// A DeviceContext observation as seen by the trigger engine
+export interface ContextSnapshot {
+  context: DeviceContext;
+  at: Date;
+}
+
+export interface TriggerEngine {
+  observe(rules: ProactiveRule[], snapshot: ContextSnapshot): ProactiveRule[]; // Rules that fired on this observation
+  history(): Record<string, number>; // Last firing per rule id, in epoch ms
+}
+
+// --- Scheduled Tasks ---
+
+export type RecurrenceUnit = 'minute' | 'hour' | 'day' | 'week';
+
+// Days and weeks follow the local calendar, so a daily task keeps its wall-clock time across DST
+export interface TaskRecurrence {
+  unit: RecurrenceUnit;
+  interval: number; // Every `interval` units, at least 1
+}
+
+export interface ScheduledTask {
+  id: string;
+  label: string;
+  dueAt: number; // Next firing, epoch ms
+  recurrence?: TaskRecurrence; // Omitted for one-off reminders and timers
+  createdAt: number;
+  snoozedUntil?: number; // Postpones the current occurrence only; recurrence still follows dueAt
+}
+
+export interface NewTask {
+  label: string;
+  dueAt: number;
+  recurrence?: TaskRecurrence;
+}
+
+// Time source for the scheduler; injectable so firing and recurrence run on a fake clock
+export interface SchedulerClock {
+  now(): number;
+  setTimer(callback: () => void, delayMs: number): () => void; // Returns a cancel function
+}
+
+export interface TaskScheduler {
+  list(): ScheduledTask[]; // Pending tasks, soonest first
+  recent(): ScheduledTask[]; // One-off tasks that fired lately and can still be snoozed, newest first
+  schedule(task: NewTask): ScheduledTask;
+  snooze(id: string, delayMs: number): ScheduledTask | undefined; // Pending or recently fired task
+  cancel(id: string): boolean;
+  dispose(): void;
+}
+
+// Kinds of side effect a tool can have; each is gated by its own policy
+export type ActionCategory = 'settings' | 'notifications' | 'geolocation' | 'clipboard' | 'network' | 'memory';
+
+export type PermissionPolicy = 'allow' | 'ask' | 'deny';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: Date;
+  toolName: string;
+  category: ActionCategory;
+  args: Record<string, unknown>;
+  decision: 'allowed' | 'denied';
+  decidedBy: 'policy' | 'user';
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface OrionRequest {
+  history: Message[];
+  prompt: string;
+  attachments: Attachment[];
+  systemInstruction: string;
+  model: string;
+  temperature: number;
+  signal?: AbortSignal;
+  tools?: ToolDeclaration[];
+  toolRounds?: ToolCall[][]; // Completed tool calls from earlier steps of this reply, in order
+}
+
+export interface ProviderChunk {
+  text?: string;
+  toolCalls?: ToolCallRequest[];
+  usage?: TokenUsage; // Running totals reported by the backend; the last report of a call wins
+}
+
+export interface OrionProvider {
+  id: ProviderId;
+  // Yields text and tool call requests as they are produced by the backend
+  stream(request: OrionRequest): AsyncGenerator<ProviderChunk>;
+}
+
+export type OrionStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool'; call: ToolCall } // Emitted when a call starts and again when it settles
+  | { type: 'retry'; attempt: number; delayMs: number; error: MessageError };
+
+export interface ConversationSession {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: Message[]; // The active branch, oldest first
+  branches?: Message[]; // Every message off the active branch, linked by parentId
+  summary?: ConversationSummary; // Rolling summary of turns outside the context window
+}
+
+export type ConversationExportFormat = 'markdown' | 'html' | 'json';
+
+// A conversation tree split into the branch on screen and everything else
+export interface ConversationBranches {
+  path: Message[];
+  branches: Message[];
+}
+
+export interface ConversationSummary {
+  text: string;
+  coveredUntilId: string; // Last message folded into the summary
+}
+
+export type VoiceMode = 'push-to-talk' | 'hands-free';
+
+export interface SpeechToTextHandlers {
+  // Full transcript of the current capture; isFinal once the engine commits it
+  onResult: (transcript: string, isFinal: boolean) => void;
+  onEnd: () => void;
+  onError: (message: string) => void;
+}
+
+export interface SpeechToTextEngine {
+  readonly isSupported: boolean;
+  start(handlers: SpeechToTextHandlers): void;
+  stop(): void;
+}
+
+export interface TextToSpeechEngine {
+  readonly isSupported: boolean;
+  readonly outputLevel?: AudioLevelSource; // Loudness of the speech being played, when the engine can tell
+  speak(text: string, onEnd: () => void): void;
+  cancel(): void;
+}
+
+// Live loudness of an audio signal; injectable so the orb can be driven without real audio
+export interface AudioLevelSource {
+  start(): Promise<void>;
+  stop(): void;
+  getLevel(): number; // 0 (silence) to 1
+}
+
+// --- Camera ---
+
+// Where camera frames come from; injectable so capture can run on static images
+export interface FrameSource {
+  readonly isSupported: boolean;
+  start(): Promise<void>;
+  stop(): void;
+  captureFrame(): Promise<Attachment>; // JPEG snapshot of the current frame
+  getPreviewStream(): MediaStream | null; // Live video for the preview, when the source has one
+}
+
+export interface JsonSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  enum?: (string | number)[];
+  items?: JsonSchema;
+}
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolEnvironment {
+  context: DeviceContext;
+  settings: OrionSettings;
+  updateSettings: (patch: Partial<OrionSettings>) => void;
+  scheduler: TaskScheduler;
+  sessionId: string | null;
+  sourceMessageId: string; // The user message being answered
+}
+
+export interface OrionTool<Args = any> extends ToolDeclaration {
+  category?: ActionCategory; // Omitted for side-effect-free tools, which always run
+  handler: (args: Args, env: ToolEnvironment) => Promise<unknown>;
+}
+
+export interface ToolRegistry {
+  register: (tool: OrionTool) => void;
+  get: (name: string) => OrionTool | undefined;
+  declarations: () => ToolDeclaration[];
+}
+
+export interface ToolCallRequest {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  argumentsError?: string; // Set by the provider when the model's arguments could not be parsed
+}
+
+export interface ToolCall extends ToolCallRequest {
+  status: 'awaiting-approval' | 'running' | 'success' | 'error' | 'denied';
+  result?: unknown;
+  error?: string;
 }
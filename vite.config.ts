@@ -1,19 +1,27 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { orionProxyPlugin } from './server/vitePlugin';
+
+// Lists the built scripts and styles for public/sw.js to precache on install
+const precacheManifestPlugin = (): Plugin => ({
+  name: 'orion-precache-manifest',
+  apply: (_config, { command, isSsrBuild }) => command === 'build' && !isSsrBuild,
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).filter(file => !file.endsWith('.html')).map(file => `/${file}`);
+    this.emitFile({ type: 'asset', fileName: 'precache-manifest.json', source: JSON.stringify(files) });
+  }
+});
 
 export default defineConfig(({ mode }) => {
+    // Server-side only: the key is used by the /api/orion/chat proxy and never reaches the bundle
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), orionProxyPlugin(env), precacheManifestPlugin()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),